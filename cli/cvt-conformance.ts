@@ -0,0 +1,164 @@
+/**
+ * CVT generator conformance suite
+ *
+ * Runs `calculateCvtTiming` against published VESA reference timings and asserts exact porches,
+ * totals and pixel clock for every vector.
+ *
+ *   npm run conformance
+ *
+ * Vectors come from the CVT-generated entries of the VESA DMT standard (ID given), from the
+ * VESA CVT 1.2 spreadsheet and, for RB2 and RB3 at high refresh rates, from the CVT 2.0 reduced
+ * blanking equations worked by hand. Resolutions whose aspect ratio is not one of the CVT-defined ratios
+ * (4:3, 16:9, 16:10, 5:4, 15:9) fall through to the 10-line vsync and are flagged, both for the
+ * vectors and for a sweep of common panel sizes.
+ *
+ * Exit codes: 0 all vectors match, 1 at least one mismatch.
+ */
+import { calculateCvtTiming, type CvtProfile, type CvtTimingResult } from "../src/lib/engine";
+
+type CvtOptions = { videoOptimized?: boolean; extraHBlank?: number; extraVBlankUs?: number };
+
+// [reference, hActive, vActive, refreshHz, profile, pixelClockMHz, hFront, hSync, hBack, vFront, vSync, vBack, options?]
+type CvtVector = [string, number, number, number, CvtProfile, number, number, number, number, number, number, number, CvtOptions?];
+
+const VECTORS: CvtVector[] = [
+  // 4:3
+  ["CVT 1.2 sheet", 1024, 768, 60, "cvt", 63.5, 48, 104, 152, 3, 4, 23],
+  ["DMT 0x2A", 1400, 1050, 60, "cvt", 121.75, 88, 144, 232, 3, 4, 32],
+  ["DMT 0x2B", 1400, 1050, 75, "cvt", 156, 104, 144, 248, 3, 4, 42],
+  ["DMT 0x2C", 1400, 1050, 85, "cvt", 179.5, 104, 152, 256, 3, 4, 48],
+  ["DMT 0x29", 1400, 1050, 60, "cvt_rb", 101, 48, 32, 80, 3, 4, 23],
+  ["DMT 0x2D", 1400, 1050, 120, "cvt_rb", 208, 48, 32, 80, 3, 4, 55],
+  // 5:4
+  ["CVT 1.2 sheet", 1280, 1024, 60, "cvt", 109, 80, 136, 216, 3, 7, 29],
+  // 15:9
+  ["DMT 0x17", 1280, 768, 60, "cvt", 79.5, 64, 128, 192, 3, 7, 20],
+  ["DMT 0x18", 1280, 768, 75, "cvt", 102.25, 80, 128, 208, 3, 7, 27],
+  ["DMT 0x19", 1280, 768, 85, "cvt", 117.5, 80, 136, 216, 3, 7, 31],
+  ["DMT 0x16", 1280, 768, 60, "cvt_rb", 68.25, 48, 32, 80, 3, 7, 12],
+  ["DMT 0x1A", 1280, 768, 120, "cvt_rb", 140.25, 48, 32, 80, 3, 7, 35],
+  // 16:10
+  ["DMT 0x1C", 1280, 800, 60, "cvt", 83.5, 72, 128, 200, 3, 6, 22],
+  ["DMT 0x1D", 1280, 800, 75, "cvt", 106.5, 80, 128, 208, 3, 6, 29],
+  ["DMT 0x1E", 1280, 800, 85, "cvt", 122.5, 80, 136, 216, 3, 6, 34],
+  ["DMT 0x1B", 1280, 800, 60, "cvt_rb", 71, 48, 32, 80, 3, 6, 14],
+  ["DMT 0x1F", 1280, 800, 120, "cvt_rb", 146.25, 48, 32, 80, 3, 6, 38],
+  ["DMT 0x2F", 1440, 900, 60, "cvt", 106.5, 80, 152, 232, 3, 6, 25],
+  ["DMT 0x30", 1440, 900, 75, "cvt", 136.75, 96, 152, 248, 3, 6, 33],
+  ["DMT 0x31", 1440, 900, 85, "cvt", 157, 104, 152, 256, 3, 6, 39],
+  ["DMT 0x2E", 1440, 900, 60, "cvt_rb", 88.75, 48, 32, 80, 3, 6, 17],
+  ["DMT 0x32", 1440, 900, 120, "cvt_rb", 182.75, 48, 32, 80, 3, 6, 44],
+  ["DMT 0x3A", 1680, 1050, 60, "cvt", 146.25, 104, 176, 280, 3, 6, 30],
+  ["DMT 0x3B", 1680, 1050, 75, "cvt", 187, 120, 176, 296, 3, 6, 40],
+  ["DMT 0x3C", 1680, 1050, 85, "cvt", 214.75, 128, 176, 304, 3, 6, 46],
+  ["DMT 0x39", 1680, 1050, 60, "cvt_rb", 119, 48, 32, 80, 3, 6, 21],
+  ["DMT 0x3D", 1680, 1050, 120, "cvt_rb", 245.5, 48, 32, 80, 3, 6, 53],
+  ["DMT 0x45", 1920, 1200, 60, "cvt", 193.25, 136, 200, 336, 3, 6, 36],
+  ["DMT 0x46", 1920, 1200, 75, "cvt", 245.25, 136, 208, 344, 3, 6, 46],
+  ["DMT 0x47", 1920, 1200, 85, "cvt", 281.25, 144, 208, 352, 3, 6, 53],
+  ["DMT 0x44", 1920, 1200, 60, "cvt_rb", 154, 48, 32, 80, 3, 6, 26],
+  ["DMT 0x48", 1920, 1200, 120, "cvt_rb", 317, 48, 32, 80, 3, 6, 62],
+  ["DMT 0x4D", 2560, 1600, 60, "cvt", 348.5, 192, 280, 472, 3, 6, 49],
+  ["DMT 0x4E", 2560, 1600, 75, "cvt", 443.25, 208, 280, 488, 3, 6, 63],
+  ["DMT 0x4F", 2560, 1600, 85, "cvt", 505.25, 208, 280, 488, 3, 6, 73],
+  ["DMT 0x4C", 2560, 1600, 60, "cvt_rb", 268.5, 48, 32, 80, 3, 6, 37],
+  ["DMT 0x50", 2560, 1600, 120, "cvt_rb", 552.75, 48, 32, 80, 3, 6, 85],
+  // 16:9
+  ["CVT 1.2 sheet", 1280, 720, 60, "cvt", 74.5, 64, 128, 192, 3, 5, 20],
+  ["CVT 1.2 sheet", 1920, 1080, 60, "cvt", 173, 128, 200, 328, 3, 5, 32],
+  ["CVT 1.2 sheet", 2560, 1440, 60, "cvt", 312.25, 192, 272, 464, 3, 5, 45],
+  ["CVT 1.2 sheet", 3840, 2160, 60, "cvt", 712.75, 312, 424, 736, 3, 5, 69],
+  ["CVT 1.2 sheet", 1920, 1080, 60, "cvt_rb", 138.5, 48, 32, 80, 3, 5, 23],
+  ["DMT 0x57", 3840, 2160, 60, "cvt_rb", 533.25, 48, 32, 80, 3, 5, 54],
+  ["CVT 1.2 sheet", 1920, 1080, 60, "cvt_rb2", 133.32, 8, 32, 40, 17, 8, 6],
+  ["CVT 1.2 sheet", 3840, 2160, 60, "cvt_rb2", 522.614, 8, 32, 40, 48, 8, 6],
+  ["CVT 2.0 RB2", 1920, 1080, 240, "cvt_rb2", 583.2, 8, 32, 40, 121, 8, 6],
+  ["CVT 2.0 RB2", 2560, 1440, 120, "cvt_rb2", 483.12, 8, 32, 40, 71, 8, 6],
+  ["CVT 2.0 RB2", 2560, 1440, 144, "cvt_rb2", 586.586, 8, 32, 40, 89, 8, 6],
+  ["CVT 2.0 RB2", 3840, 2160, 120, "cvt_rb2", 1075.804, 8, 32, 40, 113, 8, 6],
+  ["CVT 2.0 RB2", 3840, 2160, 144, "cvt_rb2", 1306.206, 8, 32, 40, 140, 8, 6],
+  // 43:18
+  ["CVT 2.0 RB2", 3440, 1440, 100, "cvt_rb2", 531.52, 8, 32, 40, 56, 8, 6],
+  // 256:135
+  ["DMT 0x57", 4096, 2160, 60, "cvt_rb2", 556.744, 8, 32, 40, 48, 8, 6],
+  // DMT lists 556.188, the 1000/1001 clock rounded to 1 kHz.
+  ["DMT 0x58", 4096, 2160, 60, "cvt_rb2", 556.187812, 8, 32, 40, 48, 8, 6, { videoOptimized: true }],
+  // RB3: the extra horizontal blank goes into the back porch, extra vertical blank time into the front porch.
+  ["CVT 2.0 RB3", 3840, 2160, 60, "cvt_rb3", 522.614, 8, 32, 40, 48, 8, 6],
+  ["CVT 2.0 RB3", 2560, 1440, 144, "cvt_rb3", 595.474, 8, 32, 80, 89, 8, 6, { extraHBlank: 40 }],
+  ["CVT 2.0 RB3", 3840, 2160, 144, "cvt_rb3", 1332.864, 8, 32, 120, 140, 8, 6, { extraHBlank: 80 }],
+  ["CVT 2.0 RB3", 3840, 2160, 60, "cvt_rb3", 538.612, 8, 32, 160, 48, 8, 6, { extraHBlank: 120 }],
+  ["CVT 2.0 RB3", 1920, 1080, 60, "cvt_rb3", 142.08, 8, 32, 40, 90, 8, 6, { extraVBlankUs: 1000 }],
+];
+
+// Common panel sizes checked only for the aspect-ratio fall-through.
+const SWEEP: Array<[number, number]> = [
+  [1360, 768], [1366, 768], [1600, 900], [2560, 1080], [3440, 1440], [3840, 1600], [5120, 1440], [5120, 2160], [5120, 2880], [7680, 4320],
+];
+
+const CVT_ASPECTS = ["4:3", "16:9", "16:10", "5:4", "15:9"];
+
+const FIELDS = ["hFront", "hSync", "hBack", "vFront", "vSync", "vBack"] as const;
+
+function describe(h: number, v: number, hz: number, profile: CvtProfile, options: CvtOptions = {}) {
+  const extras = [
+    options.videoOptimized ? "1000/1001" : "",
+    options.extraHBlank ? `+${options.extraHBlank} hblank` : "",
+    options.extraVBlankUs ? `+${options.extraVBlankUs} µs vblank` : "",
+  ].filter(Boolean);
+  return `${h}×${v}@${hz} ${profile}${extras.length ? ` (${extras.join(", ")})` : ""}`;
+}
+
+function mismatches(vector: CvtVector, result: CvtTimingResult): string[] {
+  const [, h, v, , , clock] = vector;
+  const porches = vector.slice(6, 12) as number[];
+  const errors: string[] = [];
+  if (Math.abs(result.pixelClockMHz - clock) > 1e-6) errors.push(`pixel clock ${result.pixelClockMHz} MHz, expected ${clock}`);
+  FIELDS.forEach((field, i) => {
+    if (result[field] !== porches[i]) errors.push(`${field} ${result[field]}, expected ${porches[i]}`);
+  });
+  const hTotal = h + porches[0] + porches[1] + porches[2];
+  const vTotal = v + porches[3] + porches[4] + porches[5];
+  if (result.hTotal !== hTotal) errors.push(`hTotal ${result.hTotal}, expected ${hTotal}`);
+  if (result.vTotal !== vTotal) errors.push(`vTotal ${result.vTotal}, expected ${vTotal}`);
+  return errors;
+}
+
+function main() {
+  let failed = 0;
+  const flagged: string[] = [];
+  const flag = (name: string, result: CvtTimingResult) => {
+    if (!CVT_ASPECTS.includes(result.aspectRatio)) flagged.push(`${name}: aspect ${result.aspectRatio}, ${result.vSync}-line vsync`);
+  };
+
+  for (const vector of VECTORS) {
+    const [reference, h, v, hz, profile] = vector;
+    const options = vector[12] ?? {};
+    const result = calculateCvtTiming({ hActive: h, vActive: v, refreshHz: hz, reducedBlanking: profile, ...options });
+    const name = `${describe(h, v, hz, profile, options)} (${reference})`;
+    const errors = mismatches(vector, result);
+    if (errors.length) {
+      failed += 1;
+      console.log(`FAIL ${name}\n  ${errors.join("\n  ")}`);
+    } else {
+      console.log(`ok   ${name}`);
+    }
+    // RB2/RB3 always use an 8-line vsync.
+    if (profile === "cvt" || profile === "cvt_rb") flag(name, result);
+  }
+
+  // Only the CVT and CVT-RB profiles are swept, for the same reason.
+  for (const [h, v] of SWEEP) {
+    for (const profile of ["cvt", "cvt_rb"] as const) {
+      flag(describe(h, v, 60, profile), calculateCvtTiming({ hActive: h, vActive: v, refreshHz: 60, reducedBlanking: profile }));
+    }
+  }
+
+  console.log(`\n${VECTORS.length - failed}/${VECTORS.length} vectors match.`);
+  if (flagged.length) {
+    console.log(`\nAspect ratio outside the CVT table (10-line vsync fallback):\n  ${flagged.join("\n  ")}`);
+  }
+  return failed ? 1 : 0;
+}
+
+process.exitCode = main();
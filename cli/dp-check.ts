@@ -0,0 +1,178 @@
+/**
+ * Headless DP bandwidth checker
+ *
+ * Evaluates one or more exported `dp_multi_timing_config.json` files with the same engine the UI uses.
+ * The transport block may describe a DisplayPort or an HDMI (TMDS / FRL) link; a `usb4` block checks
+ * the DP link against the bandwidth its USB4 tunnel is granted, and a `usbc` block replaces it with the
+ * USB-C Alt Mode link (cable rate, pin assignment lanes) exactly as the UI does.
+ *
+ *   npm run check -- lab/*.json          human-readable report
+ *   npm run check -- --json lab/*.json   machine-readable report on stdout
+ *
+ * Stored peak_bw / peak_bw_dsc values are used as-is so results match the UI; timings exported
+ * without them are computed from their mode and generator.
+ * Files with a `topology` block are also checked hop by hop; any failing hop fails the file.
+ *
+ * Exit codes: 0 all configurations fit, 1 at least one exceeds payload capacity, 2 usage or input error.
+ */
+import { readFile } from "node:fs/promises";
+import {
+  DP_PRESETS,
+  MST_PAYLOAD_SLOTS,
+  altModeLink,
+  codingLabel,
+  effectivePinAssignment,
+  pinAssignment,
+  usbCCable,
+  evaluateConfiguration,
+  evaluateTopology,
+  parseConfigJson,
+  type ConfigurationEvaluation,
+  type TopologyEvaluation,
+  type UsbCAltMode,
+} from "../src/lib/engine";
+
+interface FileReport {
+  file: string;
+  presetId?: string;
+  error?: string;
+  evaluation?: ConfigurationEvaluation;
+  topology?: TopologyEvaluation;
+  usbc?: UsbCAltMode;
+}
+
+const USAGE = "Usage: dp-check [--json] <config.json> [more.json ...]";
+
+// Files without a transport block are evaluated against the UI's default link.
+const DEFAULT_LINK = DP_PRESETS.find((p) => p.id === "dp13_hbr3") ?? DP_PRESETS[0];
+
+async function checkFile(file: string): Promise<FileReport> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (err) {
+    return { file, error: `Cannot read file: ${(err as Error).message}` };
+  }
+  let config: ReturnType<typeof parseConfigJson>;
+  try {
+    config = parseConfigJson(text, { rate: DEFAULT_LINK.rate, lanes: DEFAULT_LINK.lanes, coding: DEFAULT_LINK.coding });
+  } catch (err) {
+    return { file, error: err instanceof SyntaxError ? "Invalid JSON file." : `Invalid configuration: ${(err as Error).message}` };
+  }
+  if (!config.hasTimings) return { file, error: "No timings array found." };
+  try {
+    const timings = config.timings.map((t) => ({ ...t, peakBw: t.peakBw || undefined, peakBwDsc: t.peakBwDsc || undefined }));
+    // A USB-C Alt Mode plan dictates lanes, rate and coding, as it does in the UI.
+    const transport = config.usbc ? altModeLink(config.usbc, config.transport.ssc) : config.transport;
+    const topology = config.topology?.nodes.length ? evaluateTopology(config.topology, timings, transport) : undefined;
+    const mst = config.topology?.nodes[0]?.kind === "branch";
+    return { file, presetId: config.presetId, evaluation: evaluateConfiguration({ ...config, transport, timings, mst }), topology, usbc: config.usbc };
+  } catch (err) {
+    return { file, error: `Evaluation failed: ${(err as Error).message}` };
+  }
+}
+
+function verdict(report: FileReport) {
+  return report.evaluation.fits && (report.topology?.fits ?? true);
+}
+
+function formatReport(report: FileReport): string {
+  if (report.error || !report.evaluation) return `${report.file}\n  ERROR  ${report.error}`;
+  const { link, timings, totalGbps, marginGbps, marginPct, mst } = report.evaluation;
+  const coding = codingLabel(link.coding);
+  const lines = [
+    report.file,
+    `  Link     ${link.rate.toFixed(2)} Gbps × ${link.lanes} lanes, ${coding}${report.presetId ? ` (${report.presetId})` : ""}`,
+    `  Payload  ${link.payloadGbps.toFixed(2)} Gbps of ${link.rawGbps.toFixed(2)} raw`,
+    ...link.overheads.map((o) => `    − ${o.label}: ${o.lossGbps.toFixed(2)} Gbps (×${o.factor.toFixed(5)})`),
+  ];
+  if (report.usbc) {
+    const pin = pinAssignment(effectivePinAssignment(report.usbc));
+    lines.push(`  USB-C    pin assignment ${pin.id}, ${pin.lanes} DP lanes${pin.usbData ? " + USB 3.x" : ""}, ${usbCCable(report.usbc.cable).label}`);
+  }
+  const { usb4 } = report.evaluation;
+  if (usb4) {
+    lines.push(`  USB4     ${usb4.speed.label}: ${usb4.availableGbps.toFixed(2)} of ${usb4.fabricGbps.toFixed(2)} Gbps for DP tunnels`);
+    for (const tunnel of usb4.tunnels) {
+      lines.push(`    ${tunnel.primary ? "*" : "-"} ${tunnel.label}: requests ${tunnel.requestGbps.toFixed(2)}, granted ${tunnel.grantedGbps.toFixed(2)} Gbps`);
+    }
+  }
+  for (const row of timings) {
+    const clock = row.pixelClockMHz ? `${row.pixelClockMHz.toFixed(3)} MHz` : "—";
+    const stream = mst.streams[row.index];
+    const slots = link.mst ? `, PBN ${stream.pbn} → ${stream.fits ? `${stream.allocatedSlots} slots` : `needs ${stream.requiredSlots} slots, NOT ALLOCATED`}` : "";
+    lines.push(`  - ${row.label}: ${row.selectedGbps.toFixed(2)} Gbps${row.useDsc ? " (DSC)" : ""}, pixel clock ${clock}${slots}`);
+    for (const err of row.dscErrors) lines.push(`      DSC invalid: ${err}`);
+    for (const err of row.formatErrors) lines.push(`      Pixel format invalid: ${err}`);
+    for (const err of row.transportErrors) lines.push(`      HDMI: ${err}`);
+    if (row.tmdsClockMHz) lines.push(`      TMDS clock ${row.tmdsClockMHz.toFixed(2)} MHz`);
+    for (const warning of row.sdp?.warnings ?? []) lines.push(`      SDP ${row.sdp.status === "fail" ? "FAIL" : "spill"}: ${warning}`);
+  }
+  for (const err of report.evaluation.linkErrors) lines.push(`  ERROR    ${err}`);
+  for (const err of report.evaluation.capabilityErrors) lines.push(`  LIMIT    ${err}`);
+  lines.push(`  Total    ${totalGbps.toFixed(2)} Gbps`);
+  if (link.mst) lines.push(`  MST      ${mst.usedSlots}/${MST_PAYLOAD_SLOTS} slots, ${mst.pbnPerSlot.toFixed(2)} PBN per slot`);
+  lines.push(`  Margin   ${marginGbps.toFixed(2)} Gbps (${marginPct.toFixed(1)}%)`);
+  if (report.topology) {
+    lines.push("  Topology");
+    for (const hop of report.topology.hops) {
+      const e = hop.evaluation;
+      const slots = e.link.mst ? `, ${e.mst.usedSlots}/${MST_PAYLOAD_SLOTS} slots` : "";
+      const bottleneck = hop.nodeId === report.topology.bottleneckId ? "  ← bottleneck" : "";
+      lines.push(`    ${"  ".repeat(hop.depth)}${hop.label}: ${e.totalGbps.toFixed(2)} / ${e.link.payloadGbps.toFixed(2)} Gbps${slots} ${e.fits ? "FITS" : "EXCEEDS"}${bottleneck}`);
+    }
+  }
+  lines.push(`  Verdict  ${verdict(report) ? "FITS" : "EXCEEDS"}`);
+  return lines.join("\n");
+}
+
+function toJson(report: FileReport) {
+  if (report.error || !report.evaluation) return { file: report.file, error: report.error };
+  const { link, timings, totalGbps, marginGbps, marginPct, utilizationPct, mst, linkErrors, capabilityErrors, usb4 } = report.evaluation;
+  return {
+    file: report.file,
+    presetId: report.presetId,
+    link,
+    timings,
+    totalGbps,
+    marginGbps,
+    marginPct,
+    utilizationPct,
+    linkErrors,
+    capabilityErrors,
+    usb4,
+    fits: verdict(report),
+    mstSlotCounts: mst.slotCounts,
+    mstStreams: mst.streams,
+    topology: report.topology,
+  };
+}
+
+async function main(argv: string[]) {
+  const json = argv.includes("--json");
+  if (argv.includes("--help") || argv.includes("-h")) {
+    console.log(USAGE);
+    return 0;
+  }
+  const unknown = argv.filter((arg) => arg.startsWith("-") && arg !== "--json");
+  const files = argv.filter((arg) => !arg.startsWith("-"));
+  if (unknown.length || files.length === 0) {
+    console.error(unknown.length ? `Unknown option: ${unknown.join(", ")}` : "No input files.");
+    console.error(USAGE);
+    return 2;
+  }
+
+  const reports: FileReport[] = [];
+  for (const file of files) reports.push(await checkFile(file));
+
+  if (json) {
+    console.log(JSON.stringify(reports.map(toJson), null, 2));
+  } else {
+    console.log(reports.map(formatReport).join("\n\n"));
+  }
+
+  if (reports.some((r) => r.error)) return 2;
+  return reports.some((r) => !verdict(r)) ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then((code) => { process.exitCode = code; });
@@ -0,0 +1,293 @@
+/**
+ * Engine known-answer suite
+ *
+ * Checks the MST, DSC and solver math against values worked from the specifications and from the
+ * Linux DRM helpers, the same way cvt-conformance.ts checks the CVT generator.
+ *
+ *   npm run conformance
+ *
+ * MST: stream PBN against `drm_dp_calc_pbn_mode` (ceil(clock kHz × bpp × 64 × 1006 / (8 × 54 × 10⁶)),
+ * the first three vectors are the kernel's own self-test cases), PBN per time slot against the
+ * kernel's `pbn_div` for each link, and whole-slot VCPI allocation.
+ * DSC: compressed stream rate (pixel clock × target bpp), the automatic slice count against the
+ * per-slice throughput and slice-width limits, and the errors for setups a sink cannot decode.
+ * Pixel formats: uncompressed bpp per color format and bpc, the DSC target range for each sampling
+ * (DP 2.0 mandatory minimum up to one bit below the source) and the PPS bits_per_pixel.
+ * Timing library: CTA-861 VIC porches, sync widths, totals and frame rate, row by row from CTA-861-H
+ * Table 1.
+ * Modelines: a generated card with no stored porches keeps the generator's clock and refresh.
+ * EDID builder: generated EDIDs parse back to the timings they were built from, within the 10 kHz
+ * DTD and 1 kHz DisplayID clock steps.
+ * Solver: cases whose least lossy fit can be worked by hand from the link payload.
+ *
+ * Exit codes: 0 all vectors match, 1 at least one mismatch.
+ */
+import { allocateMstSlots, buildEdid, evaluateDsc, findVic, isPixelFormatSupported, linkCapacity, modeTiming, parseEdid, pbnPerSlot, resolveTiming, solveToFit, streamPbn, type ColorFormatId, type Coding, type DscConfig, type TimingConfig, type TimingParams } from "../src/lib/engine";
+
+interface Check {
+  name: string;
+  errors: string[];
+}
+
+function expectEqual(errors: string[], what: string, actual: unknown, expected: unknown) {
+  if (actual !== expected) errors.push(`${what} ${String(actual)}, expected ${String(expected)}`);
+}
+
+function expectClose(errors: string[], what: string, actual: number, expected: number, tolerance: number) {
+  if (!(Math.abs(actual - expected) <= tolerance)) errors.push(`${what} ${actual}, expected ${expected} ± ${tolerance}`);
+}
+
+// [pixel clock kHz, bpp, PBN]
+const PBN_VECTORS: Array<[number, number, number]> = [
+  [154000, 30, 689],
+  [234000, 30, 1047],
+  [297000, 24, 1063],
+  [74250, 24, 266],
+  [148500, 24, 532],
+  [594000, 24, 2125],
+  [533250, 30, 2385],
+  [1306206, 30, 5841],
+];
+
+// [rate Gbps, lanes, coding, PBN per slot]; 128b/132b carries 96.71875% of the raw rate.
+const SLOT_VECTORS: Array<[number, number, Coding, number]> = [
+  [1.62, 4, "8b10b", 12],
+  [2.7, 4, "8b10b", 20],
+  [5.4, 2, "8b10b", 20],
+  [5.4, 4, "8b10b", 40],
+  [8.1, 1, "8b10b", 15],
+  [8.1, 4, "8b10b", 60],
+  [10, 4, "128b132b", 89.554398],
+  [20, 4, "128b132b", 179.108796],
+];
+
+function mstChecks(): Check[] {
+  const checks: Check[] = [];
+  for (const [clockKHz, bpp, pbn] of PBN_VECTORS) {
+    const errors: string[] = [];
+    expectEqual(errors, "PBN", streamPbn((clockKHz * bpp) / 1e6), pbn);
+    checks.push({ name: `PBN ${clockKHz} kHz × ${bpp} bpp`, errors });
+  }
+  for (const [rate, lanes, coding, perSlot] of SLOT_VECTORS) {
+    const errors: string[] = [];
+    expectClose(errors, "PBN per slot", pbnPerSlot(linkCapacity({ rate, lanes, coding, ssc: true })), perSlot, 1e-6);
+    checks.push({ name: `PBN per slot ${rate} Gbps × ${lanes}`, errors });
+  }
+
+  // HBR2 ×4 (40 PBN per slot): 2160p60 needs ceil(2125 / 40) = 54 slots after the header, leaving
+  // 9; 1080p60 needs 14 and is refused, 720p60 still gets 7 starting at slot 55.
+  const errors: string[] = [];
+  const allocation = allocateMstSlots([14.256, 3.564, 1.782], linkCapacity({ rate: 5.4, lanes: 4, coding: "8b10b", ssc: true }));
+  const summary = allocation.streams.map((s) => `${s.requiredSlots}@${s.startSlot ?? "-"}${s.fits ? "" : "!"}`).join(" ");
+  expectEqual(errors, "streams (slots@start)", summary, "54@1 14@-! 7@55");
+  expectEqual(errors, "used slots", allocation.usedSlots, 61);
+  expectEqual(errors, "fits", allocation.fits, false);
+  checks.push({ name: "VCPI allocation HBR2 ×4: 2160p60 + 1080p60 + 720p60", errors });
+  return checks;
+}
+
+// [label, hActive, pixel clock MHz, bpc, uncompressed bpp, config, compressed Gbps, slices, error matching]
+type DscVector = [string, number, number, number, number, DscConfig, number, number, RegExp?];
+
+const DSC_VECTORS: DscVector[] = [
+  // 522.614 / 340 MP/s needs 2 slices; 1920 px each is within 2560.
+  ["2160p60 RB2 8 bpp", 3840, 522.614, 8, 24, { targetBpp: 8 }, 4.180912, 2],
+  // 1306.206 / 340 = 3.84 → 4 slices.
+  ["2160p144 RB2 12 bpp", 3840, 1306.206, 10, 30, { targetBpp: 12 }, 15.674472, 4],
+  // 6 slices would need 396 MP/s each → 8.
+  ["4320p60 12 bpp", 7680, 2376, 10, 30, { targetBpp: 12 }, 28.512, 8],
+  // Native 4:2:0 codes two pixels per cycle: 2 slices carry 326.6 MP/s each.
+  ["2160p144 4:2:0 native, 2 slices", 3840, 1306.206, 10, 15, { targetBpp: 8, sampling: "420", sliceCount: 2 }, 10.449648, 2],
+  ["2160p144 4:4:4, 2 slices", 3840, 1306.206, 10, 30, { targetBpp: 12, sliceCount: 2 }, 15.674472, 2, /653\.1 MP\/s each; the sink handles 340/],
+  ["2160p60, 1 slice", 3840, 522.614, 8, 24, { targetBpp: 8, sliceCount: 1, sliceThroughputMps: 1000 }, 4.180912, 1, /Slice width 3840 px exceeds the 2560 px maximum/],
+  ["2160p60, 8.03 bpp", 3840, 522.614, 8, 24, { targetBpp: 8.03 }, 4.19659, 2, /not a multiple of 1\/16/],
+];
+
+function dscChecks(): Check[] {
+  return DSC_VECTORS.map(([label, h, clock, bpc, bpp, config, gbps, slices, error]) => {
+    const errors: string[] = [];
+    const dsc = evaluateDsc(h, clock, bpc, bpp, config);
+    expectClose(errors, "compressed Gbps", dsc.compressedGbps, gbps, 1e-5);
+    expectEqual(errors, "slices", dsc.sliceCount, slices);
+    if (error) {
+      if (!dsc.errors.some((e) => error.test(e))) errors.push(`no error matching ${error}, got [${dsc.errors.join("; ")}]`);
+    } else if (dsc.errors.length) {
+      errors.push(`unexpected errors: ${dsc.errors.join("; ")}`);
+    }
+    return { name: `DSC ${label}`, errors };
+  });
+}
+
+// [color format, bpc, target bpp, uncompressed bpp, min bpp, max bpp, PPS bpp]
+const FORMAT_VECTORS: Array<[ColorFormatId, number, number, number, number, number, number]> = [
+  ["rgb", 8, 12, 24, 8, 23, 12],
+  ["rgb", 10, 12, 30, 8, 29, 12],
+  ["yuv444", 12, 16, 36, 8, 35, 16],
+  // Native 4:2:x writes twice the stream rate to the PPS.
+  ["yuv422", 10, 10, 20, 7, 19, 20],
+  ["yuv422", 8, 7, 16, 7, 15, 14],
+  ["yuv420", 8, 8, 12, 6, 11, 16],
+  ["yuv420", 10, 6, 15, 6, 14, 12],
+];
+
+function formatChecks(): Check[] {
+  const checks: Check[] = FORMAT_VECTORS.map(([colorFormat, bpc, target, bpp, min, max, pps]) => {
+    const errors: string[] = [];
+    const timing = resolveTiming({ h: 3840, v: 2160, hz: 60, cvtKind: "cvt_rb2", bpc, colorFormat, dscBpp: target });
+    expectEqual(errors, "bpp", timing.bpp, bpp);
+    expectEqual(errors, "min bpp", timing.dsc.minBpp, min);
+    expectEqual(errors, "max bpp", timing.dsc.maxBpp, max);
+    expectEqual(errors, "PPS bpp", timing.dsc.ppsBpp, pps);
+    if (timing.dsc.errors.length) errors.push(`unexpected errors: ${timing.dsc.errors.join("; ")}`);
+    return { name: `Format ${colorFormat} ${bpc} bpc at ${target} bpp`, errors };
+  });
+
+  let errors: string[] = [];
+  const below = resolveTiming({ h: 3840, v: 2160, hz: 60, cvtKind: "cvt_rb2", bpc: 8, colorFormat: "yuv420", dscBpp: 5.9375 });
+  if (!below.dsc.errors.some((e) => /below the 6 bpp minimum for 4:2:0/.test(e))) errors.push(`no minimum error, got [${below.dsc.errors.join("; ")}]`);
+  const above = resolveTiming({ h: 3840, v: 2160, hz: 60, cvtKind: "cvt_rb2", bpc: 8, colorFormat: "rgb", dscBpp: 23.0625 });
+  if (!above.dsc.errors.some((e) => /exceeds 23 bpp/.test(e))) errors.push(`no maximum error, got [${above.dsc.errors.join("; ")}]`);
+  checks.push({ name: "Format DSC targets outside the range", errors });
+
+  // 6 bpc exists for RGB only, and DSC takes 8, 10 or 12 bpc input.
+  errors = [];
+  expectEqual(errors, "RGB 6 bpc", isPixelFormatSupported(6, "rgb"), true);
+  expectEqual(errors, "YUV 4:4:4 6 bpc", isPixelFormatSupported(6, "yuv444"), false);
+  expectEqual(errors, "YUV 4:2:0 6 bpc", isPixelFormatSupported(6, "yuv420"), false);
+  expectEqual(errors, "RGB 6 bpc with DSC", isPixelFormatSupported(6, "rgb", true), false);
+  expectEqual(errors, "RGB 16 bpc with DSC", isPixelFormatSupported(16, "rgb", true), false);
+  expectEqual(errors, "YUV 4:2:2 12 bpc with DSC", isPixelFormatSupported(12, "yuv422", true), true);
+  checks.push({ name: "Format support by bpc", errors });
+  return checks;
+}
+
+// [VIC, hFront/hSync/hBack, vFront/vSync/vBack, totals, frame rate]
+const VIC_VECTORS: Array<[number, string, string, string, number]> = [
+  [16, "88/44/148", "4/5/36", "2200×1125", 60],
+  [97, "176/88/296", "8/10/72", "4400×2250", 60],
+  [121, "1996/88/296", "8/10/22", "7500×2200", 24],
+  [122, "1696/88/296", "8/10/22", "7200×2200", 25],
+  [123, "664/88/128", "8/10/22", "6000×2200", 30],
+  [124, "746/88/296", "8/10/297", "6250×2475", 48],
+  [125, "1096/88/296", "8/10/72", "6600×2250", 50],
+  [126, "164/88/128", "8/10/72", "5500×2250", 60],
+  [127, "1096/88/296", "8/10/72", "6600×2250", 100],
+  [193, "164/88/128", "8/10/72", "5500×2250", 120],
+];
+
+function vicChecks(): Check[] {
+  return VIC_VECTORS.map(([vic, horizontal, vertical, totals, hz]) => {
+    const errors: string[] = [];
+    const t = findVic(vic);
+    if (!t) return { name: `VIC ${vic}`, errors: ["not in the library"] };
+    expectEqual(errors, "horizontal porches", `${t.hFront}/${t.hSync}/${t.hBack}`, horizontal);
+    expectEqual(errors, "vertical porches", `${t.vFront}/${t.vSync}/${t.vBack}`, vertical);
+    expectEqual(errors, "totals", `${t.h + t.hFront + t.hSync + t.hBack}×${t.v + t.vFront + t.vSync + t.vBack}`, totals);
+    expectClose(errors, "frame rate", t.hz, hz, 1e-6);
+    return { name: `VIC ${vic} ${t.h}×${t.v}@${hz}`, errors };
+  });
+}
+
+function modelineChecks(): Check[] {
+  // 2160p144 RB2: 1306.206 MHz over 3920 × 2314.
+  const errors: string[] = [];
+  const mode = modeTiming({ h: 3840, v: 2160, hz: 144, cvtKind: "cvt_rb2" });
+  expectClose(errors, "pixel clock", mode.pixelClockMHz, 1306.206, 5e-4);
+  expectEqual(errors, "totals", `${mode.hTotal}×${mode.vTotal}`, "3920×2314");
+  expectClose(errors, "refresh", mode.refreshHz, 144, 1e-3);
+  return [{ name: "Modeline 2160p144 RB2 without stored porches", errors }];
+}
+
+// [label, timings, expected placements]
+const EDID_VECTORS: Array<[string, TimingParams[], string]> = [
+  ["DTDs and CTA-861", [
+    { h: 2560, v: 1440, hz: 60, cvtKind: "cvt_rb" },
+    { h: 1920, v: 1080, hz: 60, cvtKind: "cvt_rb2" },
+    { h: 1280, v: 720, hz: 60, cvtKind: "cvt" },
+    // 1080i: 30 frames, 60 fields per second.
+    { h: 1920, v: 1080, hz: 30, cvtKind: "cvt", interlaced: true },
+  ], "base base cta cta"],
+  // 1306.206 MHz is beyond the 655.35 MHz DTD clock field.
+  ["DisplayID Type VII", [
+    { h: 3840, v: 2160, hz: 144, cvtKind: "cvt_rb2" },
+    { h: 3840, v: 2160, hz: 60, cvtKind: "cvt_rb2" },
+    { h: 7680, v: 4320, hz: 60, cvtKind: "cvt_rb2" },
+  ], "displayid base displayid"],
+];
+
+function edidChecks(): Check[] {
+  return EDID_VECTORS.map(([label, timings, placements]) => {
+    const errors: string[] = [];
+    const modes = timings.map((t) => modeTiming(t));
+    const built = buildEdid(modes);
+    expectEqual(errors, "placements", built.placements.join(" "), placements);
+    const parsed = parseEdid(built.bytes).modes;
+    modes.forEach((m) => {
+      const back = parsed.find((p) => p.h === m.h && p.v === m.v && p.interlaced === m.interlaced && Math.abs(p.pixelClock - m.pixelClockMHz) < 0.01);
+      if (!back) {
+        errors.push(`${m.name} not parsed back`);
+        return;
+      }
+      // Decoders report the frame rate; modelines the field rate.
+      expectClose(errors, `${m.name} refresh`, back.hz * (m.interlaced ? 2 : 1), m.refreshHz, 0.01);
+      expectClose(errors, `${m.name} pixel clock`, back.pixelClock, m.pixelClockMHz, 0.005);
+      // Decoded vertical porches are per field, with the half line left implicit.
+      const vBlank = (back.vFront + back.vSync + back.vBack) * (m.interlaced ? 2 : 1) + (m.interlaced ? 1 : 0);
+      expectEqual(errors, `${m.name} totals`, `${back.h + back.hFront + back.hSync + back.hBack}×${back.v + vBlank}`, `${m.hTotal}×${m.vTotal}`);
+    });
+    return { name: `EDID round trip, ${label}`, errors };
+  });
+}
+
+const HBR3_X4 = { rate: 8.1, lanes: 4, coding: "8b10b" as const, ssc: true };
+// 2160p144 RB2 (1306.206 MHz) at 10-bit RGB needs 39.19 Gbps.
+const UHD_144: TimingConfig = { h: 3840, v: 2160, hz: 144, cvtKind: "cvt_rb2", bpc: 10, colorFormat: "rgb", useDsc: false };
+
+function solverChecks(): Check[] {
+  const checks: Check[] = [];
+
+  // With DSC (and so FEC) HBR3 ×4 carries 32.4 × 0.8 × 0.972261 × 0.995 = 25.075 Gbps:
+  // 25.075 / 1.306206 = 19.197 bpp, so 19.1875 is the highest 1/16 step that fits.
+  let errors: string[] = [];
+  let result = solveToFit({ transport: HBR3_X4, timings: [UHD_144] }, [{ bpc: true, colorFormat: true, cvtKind: true }]);
+  let choice = result.solution?.choices[0];
+  expectEqual(errors, "solution", Boolean(choice), true);
+  expectEqual(errors, "DSC", choice?.useDsc, true);
+  expectEqual(errors, "target bpp", choice?.dscBpp, 19.1875);
+  checks.push({ name: "Solver 2160p144 10-bit RGB on HBR3 ×4, DSC only: 19.1875 bpp", errors });
+
+  // Uncompressed 10-bit kept: without FEC the payload is 25.79 Gbps, so 4:2:2 (20 bpp, 26.12 Gbps)
+  // does not fit and 4:2:0 (15 bpp, 19.59 Gbps) is the least lossy fit.
+  errors = [];
+  result = solveToFit({ transport: HBR3_X4, timings: [UHD_144] }, [{ dsc: true, bpc: true, cvtKind: true }]);
+  choice = result.solution?.choices[0];
+  expectEqual(errors, "solution", Boolean(choice), true);
+  expectEqual(errors, "DSC", choice?.useDsc, false);
+  expectEqual(errors, "bpc", choice?.bpc, 10);
+  expectEqual(errors, "color format", choice?.colorFormat, "yuv420");
+  checks.push({ name: "Solver 2160p144 uncompressed 10-bit on HBR3 ×4: 4:2:0", errors });
+
+  // Already fitting: 2160p60 RB2 8-bit RGB needs 12.54 of 25.79 Gbps.
+  errors = [];
+  result = solveToFit({ transport: HBR3_X4, timings: [{ ...UHD_144, hz: 60, bpc: 8 }] });
+  expectEqual(errors, "already fits", result.alreadyFits, true);
+  checks.push({ name: "Solver 2160p60 8-bit RGB on HBR3 ×4: already fits", errors });
+  return checks;
+}
+
+function main() {
+  const checks = [...mstChecks(), ...dscChecks(), ...formatChecks(), ...vicChecks(), ...modelineChecks(), ...edidChecks(), ...solverChecks()];
+  let failed = 0;
+  for (const check of checks) {
+    if (check.errors.length) {
+      failed += 1;
+      console.log(`FAIL ${check.name}\n  ${check.errors.join("\n  ")}`);
+    } else {
+      console.log(`ok   ${check.name}`);
+    }
+  }
+  console.log(`\n${checks.length - failed}/${checks.length} vectors match.`);
+  return failed ? 1 : 0;
+}
+
+process.exitCode = main();
@@ -2,11 +2,102 @@ import React, { useMemo, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Info, CheckCircle2, AlertTriangle, Plus, Trash2, Download, Upload, ChevronDown } from "lucide-react";
+import { Info, CheckCircle2, AlertTriangle, Plus, Trash2, Download, Upload, ChevronDown, ChevronsDownUp, ChevronsUpDown, Network, Wand2, ArrowUp, ArrowDown, Copy, Cable } from "lucide-react";
 import { motion } from "framer-motion";
-import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Area, AreaChart, CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import {
+  COLOR_FORMATS,
+  DEFAULT_BPC,
+  DEFAULT_COLOR_FORMAT,
+  CODINGS,
+  DP_PRESETS,
+  EdidParseError,
+  HDMI_PRESETS,
+  LINK_PRESETS,
+  TMDS_SCRAMBLING_THRESHOLD_MHZ,
+  USB4_SPEEDS,
+  USBC_CABLES,
+  PIN_ASSIGNMENTS,
+  altModeLink,
+  compareAltModeLanes,
+  linkFallbackMatrix,
+  maxRefreshRate,
+  maxRefreshByResolution,
+  explorerGenerator,
+  DEFAULT_REFRESH_RANGE,
+  refreshSweepCurves,
+  compatibilityMatrix,
+  matrixLinks,
+  matrixToCsv,
+  matrixToMarkdown,
+  parseModeList,
+  LANE_OPTIONS,
+  MODELINE_FORMATS,
+  formatModeline,
+  modeTiming,
+  buildEdid,
+  edidToHex,
+  DEFAULT_EDID_BUILD_OPTIONS,
+  maxStreamCount,
+  sourceDisplayEngines,
+  CAPABILITY_PROFILES,
+  DSC_VERSIONS,
+  parseProfilesJson,
+  effectivePinAssignment,
+  DSC_LINE_BUFFER_DEPTHS,
+  DSC_SLICE_COUNTS,
+  DSC_SLICE_THROUGHPUTS,
+  MST_HEADER_SLOTS,
+  MST_PAYLOAD_SLOTS,
+  MST_SLOT_TOTAL,
+  CTA_VIC_TIMINGS,
+  CVT_RB3_EXTRA_HBLANK_OPTIONS,
+  DMT_TIMINGS,
+  bitsPerPixel,
+  codingLabel,
+  laneOptions,
+  maxTmdsClockMHz,
+  transportFamily,
+  BPC_OPTIONS,
+  isPixelFormatSupported,
+  effectivePixelClock,
+  evaluateConfiguration,
+  evaluateTopology,
+  exactTimingParams,
+  parseConfigJson,
+  parseEdid,
+  resolveTiming,
+  searchStandardTimings,
+  solveToFit,
+  AUDIO_CHANNEL_OPTIONS,
+  AUDIO_SAMPLE_RATES,
+  AUDIO_SAMPLE_SIZES,
+  METADATA_SDPS,
+  supportsVideoOptimized,
+  type Coding,
+  type ColorFormatId,
+  type CvtKind,
+  type CvtProfile,
+  type DetailedTiming,
+  type EdidInfo,
+  type ResolvedTiming,
+  type AudioConfig,
+  type CapabilityProfile,
+  type RefreshRange,
+  type MatrixMode,
+  type ModelineFormat,
+  type MetadataSdpId,
+  type SolverChoice,
+  type SolverLocks,
+  type SolverResult,
+  type Topology,
+  type TopologyNode,
+  type Usb4Config,
+  type Usb4DpAdapter,
+  type UsbCAltMode,
+} from "@/lib/engine";
 
 /**
  * DP Multi‑Timing Bandwidth Checker – modes‑first UI
@@ -17,30 +108,9 @@ import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Too
  * 2) Manual timing entry is moved into a collapsible submenu.
  * 3) Cards are stacked in a single column (no 2‑up grid).
  *
- * Note: Strict CVT formula fidelity is deferred; leaving a memo to implement exact
- * rounding/guard/duty later and to sync predefined_modes from Tom's list.
+ * Generator known-answer vectors: cli/cvt-conformance.ts (`npm run conformance`).
  */
 
-// ----- Memo: future strictness tasks -----
-// TODO(strict-CVT): implement exact CVT/CVT‑RB/RB2 generation (guard bands, duty cycle,
-// rounding/quantization to pixel clock granularities), and import Tom's predefined_modes JSON.
-
-// DP presets (per‑lane raw line rate in Gbps)
-const DP_PRESETS = [
-  { id: "custom", label: "Custom", rate: 8.1, coding: "8b10b" as const, lanes: 4 },
-  { id: "dp20_uhbr20", label: "DP 2.0 – UHBR20 (20 Gbps ×4, 128b/132b)", rate: 20.0, coding: "128b132b" as const, lanes: 4 },
-  { id: "dp20_uhbr13_5", label: "DP 2.0 – UHBR13.5 (13.5 Gbps ×4, 128b/132b)", rate: 13.5, coding: "128b132b" as const, lanes: 4 },
-  { id: "dp20_uhbr10", label: "DP 2.0 – UHBR10 (10 Gbps ×4, 128b/132b)", rate: 10.0, coding: "128b132b" as const, lanes: 4 },
-  { id: "dp13_hbr3", label: "DP 1.3/1.4 – HBR3 (8.1 Gbps ×4, 8b/10b)", rate: 8.1, coding: "8b10b" as const, lanes: 4 },
-  { id: "dp12_hbr2", label: "DP 1.2 – HBR2 (5.4 Gbps ×4, 8b/10b)", rate: 5.4, coding: "8b10b" as const, lanes: 4 },
-  { id: "dp12_hbr", label: "DP 1.1 – HBR (2.7 Gbps ×4, 8b/10b)", rate: 2.7, coding: "8b10b" as const, lanes: 4 },
-  { id: "dp11_rbr", label: "DP 1.1 – RBR (1.62 Gbps ×4, 8b/10b)", rate: 1.62, coding: "8b10b" as const, lanes: 4 },
-];
-
-type Coding = "8b10b" | "128b132b";
-
-type CvtKind = "manual" | "cvt" | "cvt_rb" | "cvt_rb2";
-
 type PredefinedMode = { label: string; h: number; v: number; hz: number; };
 
 const PREDEFINED_MODES: PredefinedMode[] = [
@@ -57,216 +127,45 @@ const PREDEFINED_MODES: PredefinedMode[] = [
   { label: "5120×2160 @ 120", h: 5120, v: 2160, hz: 120 },
 ];
 
-const COLOR_FORMATS = {
-  rgb: { label: "RGB", factor: 3 },
-  yuv444: { label: "YUV 4:4:4", factor: 3 },
-  yuv422: { label: "YUV 4:2:2", factor: 2 },
-  yuv420: { label: "YUV 4:2:0", factor: 1.5 },
-} as const;
-
-type ColorFormatId = keyof typeof COLOR_FORMATS;
-
-const DEFAULT_BPC = 8;
-const DEFAULT_COLOR_FORMAT: ColorFormatId = "rgb";
-const LANE_OPTIONS = [1, 2, 4] as const;
-
-
-
-
-const CVT_CELL_GRAN = 8;
-const CVT_HSYNC_PERCENT = 0.08;
-const CVT_MIN_V_PORCH = 3;
-const CVT_MIN_VSYNC_BP = 550;
-const CVT_MIN_V_BPORCH = 6;
-const CVT_MARGIN_PERCENT = 1.8;
-const CVT_C_PRIME = 30;
-const CVT_M_PRIME = 300;
-
-type CvtProfile = Exclude<CvtKind, "manual">;
-
-interface CvtTimingResult {
-  pixelClockMHz: number;
-  hTotal: number;
-  vTotal: number;
-  hBlank: number;
-  vBlank: number;
-  hFront: number;
-  hSync: number;
-  hBack: number;
-  vFront: number;
-  vSync: number;
-  vBack: number;
-}
-
-function calculateCvtTiming({
-  hActive,
-  vActive,
-  refreshHz,
-  reducedBlanking,
-  margins = false,
-  interlaced = false,
-  videoOptimized = false,
-}: {
-  hActive: number;
-  vActive: number;
-  refreshHz: number;
-  reducedBlanking: CvtProfile;
-  margins?: boolean;
-  interlaced?: boolean;
-  videoOptimized?: boolean;
-}): CvtTimingResult {
-  const clockParams = (() => {
-    switch (reducedBlanking) {
-      case "cvt":
-        return { clockStep: 0.25, clockStepInv: 4, rbHBlank: 160, rbHSync: 32, rbMinVBlank: 460, rbVFrontPorch: 3, refreshMultiplier: 1 };
-      case "cvt_rb":
-        return { clockStep: 0.25, clockStepInv: 4, rbHBlank: 160, rbHSync: 32, rbMinVBlank: 460, rbVFrontPorch: 3, refreshMultiplier: 1 };
-      case "cvt_rb2":
-      default:
-        return { clockStep: 0.001, clockStepInv: 1000, rbHBlank: 80, rbHSync: 32, rbMinVBlank: 460, rbVFrontPorch: 1, refreshMultiplier: videoOptimized ? 1000 / 1001 : 1 };
-    }
-  })();
-
-  const cellGran = Math.floor(CVT_CELL_GRAN);
-  const fieldRateRequired = interlaced ? refreshHz * 2 : refreshHz;
-  const hPixelsRounded = Math.floor(hActive / cellGran) * cellGran;
-  const leftMargin = margins ? Math.floor((hPixelsRounded * CVT_MARGIN_PERCENT / 100) / cellGran) * cellGran : 0;
-  const totalActivePixels = hPixelsRounded + leftMargin * 2;
-
-  const vLinesRounded = interlaced ? Math.floor(vActive / 2) : Math.floor(vActive);
-  const topMargin = margins ? Math.floor(vLinesRounded * CVT_MARGIN_PERCENT / 100) : 0;
-  const bottomMargin = topMargin;
-  const interlaceFactor = interlaced ? 0.5 : 0;
-
-  const verPixels = interlaced ? 2 * vLinesRounded : vLinesRounded;
-  const aspectCandidates: Array<[string, number]> = [
-    ["4:3", 4 / 3],
-    ["16:9", 16 / 9],
-    ["16:10", 16 / 10],
-    ["5:4", 5 / 4],
-    ["15:9", 15 / 9],
-    ["43:18", 43 / 18],
-    ["64:27", 64 / 27],
-    ["12:5", 12 / 5],
-  ];
-  const aspectRatio = aspectCandidates.find(([_, ratio]) => (cellGran * Math.round(verPixels * ratio / cellGran)) === hPixelsRounded)?.[0] ?? "Unknown";
-
-  let vSyncRounded: number;
-  if (reducedBlanking === "cvt_rb2") vSyncRounded = 8;
-  else if (aspectRatio === "4:3") vSyncRounded = 4;
-  else if (aspectRatio === "16:9") vSyncRounded = 5;
-  else if (aspectRatio === "16:10") vSyncRounded = 6;
-  else if (aspectRatio === "5:4") vSyncRounded = 7;
-  else if (aspectRatio === "15:9") vSyncRounded = 7;
-  else vSyncRounded = 10;
-
-  let hBlank: number;
-  let hFrontPorch: number;
-  let hSync: number;
-  let hBackPorch: number;
-  let vFrontPorch: number;
-  let vBackPorch: number;
-  let vBlank: number;
-  let totalPixels: number;
-  let totalVLines: number;
-  let pixelClockMHz: number;
-
-  if (reducedBlanking === "cvt") {
-    const hPeriodEst = ((1 / fieldRateRequired) - CVT_MIN_VSYNC_BP / 1_000_000) / (vLinesRounded + (2 * topMargin) + CVT_MIN_V_PORCH + interlaceFactor) * 1_000_000;
-
-    let vSyncBackPorch = Math.floor(CVT_MIN_VSYNC_BP / hPeriodEst) + 1;
-    if (vSyncBackPorch < (vSyncRounded + CVT_MIN_V_BPORCH)) {
-      vSyncBackPorch = vSyncRounded + CVT_MIN_V_BPORCH;
-    }
+// Entry of the per-card mode picker: a predefined H/V/Hz, a CTA/DMT library timing or a timing decoded from an EDID.
+type ModeChoice = PredefinedMode & { key: string; exact?: DetailedTiming };
 
-    vBlank = vSyncBackPorch + CVT_MIN_V_PORCH;
-    vFrontPorch = CVT_MIN_V_PORCH;
-    vBackPorch = vSyncBackPorch - vSyncRounded;
+const PREDEFINED_CHOICES: ModeChoice[] = PREDEFINED_MODES.map((m, i) => ({ ...m, key: String(i) }));
 
-    totalVLines = vLinesRounded + topMargin + bottomMargin + vSyncBackPorch + interlaceFactor + CVT_MIN_V_PORCH;
-
-    const idealDutyCycle = CVT_C_PRIME - (CVT_M_PRIME * hPeriodEst / 1000);
-    const minDutyCycle = 20;
-    if (idealDutyCycle < minDutyCycle) {
-      hBlank = Math.floor(totalActivePixels * minDutyCycle / (100 - minDutyCycle) / (2 * cellGran)) * (2 * cellGran);
-    } else {
-      hBlank = Math.floor(totalActivePixels * idealDutyCycle / (100 - idealDutyCycle) / (2 * cellGran)) * (2 * cellGran);
-    }
-
-    totalPixels = totalActivePixels + hBlank;
-
-    hSync = Math.floor(CVT_HSYNC_PERCENT * totalPixels / cellGran) * cellGran;
-    hBackPorch = hBlank / 2;
-    hFrontPorch = hBlank - hSync - hBackPorch;
-
-    pixelClockMHz = clockParams.clockStep * Math.floor(totalPixels / hPeriodEst / clockParams.clockStep);
-  } else {
-    const hPeriodEst = ((1_000_000 / fieldRateRequired) - clockParams.rbMinVBlank) / (vLinesRounded + topMargin + bottomMargin);
-    hBlank = clockParams.rbHBlank;
-
-    const vbiLines = Math.floor(clockParams.rbMinVBlank / hPeriodEst) + 1;
-    const rbMinVbi = clockParams.rbVFrontPorch + vSyncRounded + CVT_MIN_V_BPORCH;
-    const activeVbiLines = vbiLines < rbMinVbi ? rbMinVbi : vbiLines;
-
-    vBlank = activeVbiLines;
-    totalVLines = activeVbiLines + vLinesRounded + topMargin + bottomMargin + interlaceFactor;
-    totalPixels = totalActivePixels + clockParams.rbHBlank;
-
-    pixelClockMHz = Math.floor(fieldRateRequired * totalVLines * totalPixels * clockParams.clockStepInv / 1_000_000) * clockParams.refreshMultiplier / clockParams.clockStepInv;
-
-    if (reducedBlanking === "cvt_rb2") {
-      vFrontPorch = activeVbiLines - vSyncRounded - 6;
-      vBackPorch = 6;
-      hSync = clockParams.rbHSync;
-      hBackPorch = 40;
-      hFrontPorch = hBlank - hSync - hBackPorch;
-    } else {
-      vFrontPorch = 3;
-      vBackPorch = activeVbiLines - vFrontPorch - vSyncRounded;
-      hSync = clockParams.rbHSync;
-      hBackPorch = 80;
-      hFrontPorch = hBlank - hSync - hBackPorch;
-    }
-  }
-
-  return {
-    pixelClockMHz,
-    hTotal: Math.round(totalPixels),
-    vTotal: Math.round(totalVLines),
-    hBlank: Math.round(hBlank),
-    vBlank: Math.round(vBlank),
-    hFront: Math.round(hFrontPorch),
-    hSync: Math.round(hSync),
-    hBack: Math.round(hBackPorch),
-    vFront: Math.round(vFrontPorch),
-    vSync: Math.round(vSyncRounded),
-    vBack: Math.round(vBackPorch),
-  };
-}
+const exactChoice = (key: string, label: string, m: DetailedTiming): ModeChoice => ({ key, label, h: m.h, v: m.v, hz: m.hz, exact: m });
+const VIC_CHOICES: ModeChoice[] = CTA_VIC_TIMINGS.map(t => exactChoice(t.key, t.label, t));
+const DMT_CHOICES: ModeChoice[] = DMT_TIMINGS.map(t => exactChoice(t.key, t.label, t));
+const LIBRARY_GROUPS = [
+  { name: "CTA-861 VIC", choices: VIC_CHOICES },
+  { name: "VESA DMT", choices: DMT_CHOICES },
+];
 
 const TIMING_COLORS = ['#2563eb', '#22c55e', '#f97316', '#a855f7'];
-const MST_SLOT_TOTAL = 64;
-
-function codingEfficiency(coding: Coding) { return coding === "8b10b" ? 0.8 : 128/132; }
-function clamp(n:number, lo:number, hi:number){ return Math.max(lo, Math.min(hi,n)); }
+// Sweep plot curves: one color per CVT profile, dashed when compressed.
+const SWEEP_COLORS: Record<CvtProfile, string> = { cvt: '#64748b', cvt_rb: '#f97316', cvt_rb2: '#2563eb', cvt_rb3: '#a855f7' };
+// Past the fixed palette, hues step by the golden angle so neighbouring streams stay distinct.
+const timingColor = (i:number)=> i < TIMING_COLORS.length ? TIMING_COLORS[i] : `hsl(${Math.round((i * 137.508) % 360)} 65% 50%)`;
 
 interface TimingRow {
   id: string; label: string; peakBw: string; peakBwDsc: string; useDsc: boolean;
-  calcOpen?: boolean; modeIndex?: number; cvtKind?: CvtKind;
+  sinkId?: string; sinkProfileId?: string;
+  solverLocks?: SolverLocks;
+  audio?: AudioConfig; metadataSdps?: MetadataSdpId[];
+  calcOpen?: boolean; collapsed?: boolean; modeIndex?: number; modeKey?: string; modeSource?: string; cvtKind?: CvtKind;
   h?: number; v?: number; hz?: number;
   hFront?: number; hSync?: number; hBack?: number;
   vFront?: number; vSync?: number; vBack?: number;
-  bpp?: number; dscRatio?: number; // 3 or 2.4
+  bpp?: number; dscRatio?: number; // legacy 3 or 2.4, superseded by dscBpp
+  dscBpp?: number; dscSlices?: number; dscLineBufferDepth?: number; dscSliceThroughput?: number; dscMaxSliceWidth?: number;
   bpc?: number; colorFormat?: ColorFormatId;
   pixelClock?: number;
+  interlaced?: boolean; margins?: boolean; videoOptimized?: boolean;
+  hSyncPositive?: boolean; vSyncPositive?: boolean;
+  extraHBlank?: number; extraVBlankUs?: number; // CVT-RB3 only
+  cvtId?: string;
 }
 
-const DEFAULT_PRESET_TIMING = calculateCvtTiming({
-  hActive: 3840,
-  vActive: 2160,
-  refreshHz: 144,
-  reducedBlanking: "cvt_rb2",
-});
+const DEFAULT_PRESET_TIMING = resolveTiming({ h: 3840, v: 2160, hz: 144, cvtKind: "cvt_rb2" });
 
 const defaultCalc: Partial<TimingRow> = {
   calcOpen: false,
@@ -283,25 +182,23 @@ const defaultCalc: Partial<TimingRow> = {
   vBack: DEFAULT_PRESET_TIMING.vBack,
   bpc: DEFAULT_BPC,
   colorFormat: DEFAULT_COLOR_FORMAT,
-  bpp: DEFAULT_BPC * COLOR_FORMATS[DEFAULT_COLOR_FORMAT].factor,
+  bpp: DEFAULT_PRESET_TIMING.bpp,
   dscRatio: 3,
-  pixelClock: DEFAULT_PRESET_TIMING.pixelClockMHz,
+  pixelClock: DEFAULT_PRESET_TIMING.pixelClock,
+  cvtId: DEFAULT_PRESET_TIMING.cvtId,
 };
 
 const emptyTiming = (i: number): TimingRow => ({ id: `${Date.now()}_${i}`, label: `Timing ${i+1}`, peakBw:"", peakBwDsc:"", useDsc:true, ...defaultCalc });
 
-function pixelClockMHzFromTotals(
-  h:number, v:number, hz:number,
-  hFront:number, hSync:number, hBack:number,
-  vFront:number, vSync:number, vBack:number
-){
-  const hTotal = h + hFront + hSync + hBack;
-  const vTotal = v + vFront + vSync + vBack;
-  return (hTotal * vTotal * hz) / 1e6;
+// Copy a resolved engine timing back onto a card, formatting peaks the way the inputs hold them.
+function applyResolved(resolved: ResolvedTiming): Partial<TimingRow> {
+  const { peakGbps, peakDscGbps, dsc, ...fields } = resolved;
+  return { ...fields, peakBw: peakGbps.toFixed(4), peakBwDsc: peakDscGbps.toFixed(4) };
 }
 
-function streamGbpsFromClock(clockMHz:number, bpp:number){
-  return (clockMHz * 1e6 * bpp) / 1e9;
+function downloadFile(filename:string, data:BlobPart, type:string){
+  const blob = new Blob([data],{type});
+  const url = URL.createObjectURL(blob); const a = document.createElement("a"); a.href=url; a.download=filename; a.click(); URL.revokeObjectURL(url);
 }
 
 function utilColor(fits:boolean, marginPct:number){
@@ -313,96 +210,114 @@ function utilColor(fits:boolean, marginPct:number){
 export default function App(){
   const [timings, setTimings] = useState<TimingRow[]>([emptyTiming(0)]);
   const [presetId, setPresetId] = useState<string>("dp13_hbr3");
-  const preset = useMemo(()=> DP_PRESETS.find(p=>p.id===presetId) || DP_PRESETS[0], [presetId]);
+  const preset = useMemo(()=> LINK_PRESETS.find(p=>p.id===presetId) || LINK_PRESETS[0], [presetId]);
   const [lanes, setLanes] = useState<number>(preset.lanes);
   const [rate, setRate] = useState<number>(preset.rate);
   const [coding, setCoding] = useState<Coding>(preset.coding);
+  const [ssc, setSsc] = useState<boolean>(true);
+  const [edid, setEdid] = useState<EdidInfo | null>(null);
+  const [edidError, setEdidError] = useState<string>("");
+  const [edidHex, setEdidHex] = useState<string>("");
+  // Per-card timing export format, and the xrandr output the mode is added to.
+  const [modelineFormats, setModelineFormats] = useState<Record<string, ModelineFormat>>({});
+  const [xrandrOutput, setXrandrOutput] = useState<string>("DP-1");
+  // Monitor name and PNP manufacturer ID written into the generated EDID.
+  const [edidBuildName, setEdidBuildName] = useState<string>(DEFAULT_EDID_BUILD_OPTIONS.monitorName);
+  const [edidBuildManufacturer, setEdidBuildManufacturer] = useState<string>(DEFAULT_EDID_BUILD_OPTIONS.manufacturerId);
+  // Per-card search text for the VIC / DMT libraries, keyed by timing id.
+  const [modeFilters, setModeFilters] = useState<Record<string, string>>({});
+  // MST topology below the source link; null models a single link.
+  const [topology, setTopology] = useState<Topology | null>(null);
+  const [solverResult, setSolverResult] = useState<SolverResult | null>(null);
+  // USB4 fabric the source link is tunneled over; null for a direct DP connection.
+  const [usb4, setUsb4] = useState<Usb4Config | null>(null);
+  // USB-C DP Alt Mode plan; when set it dictates lanes, rate and coding.
+  const [usbc, setUsbc] = useState<UsbCAltMode | null>(null);
+  const [fallbackOpen, setFallbackOpen] = useState<boolean>(false);
+  // Streams the source can drive at once; unlimited (MST payload IDs only) when unset.
+  const [displayEngines, setDisplayEngines] = useState<number | undefined>(undefined);
+  // Editable capability profile library and the source / sink profiles attached to the link.
+  const [profiles, setProfiles] = useState<CapabilityProfile[]>(CAPABILITY_PROFILES);
+  const [sourceProfileId, setSourceProfileId] = useState<string | undefined>(undefined);
+  const [sinkProfileId, setSinkProfileId] = useState<string | undefined>(undefined);
+  const [profilesOpen, setProfilesOpen] = useState<boolean>(false);
+  // Max-refresh explorer: template card, whether it is replaced or added as an extra stream, and
+  // the swept resolution (the card's own when unset) and refresh range.
+  const [explorerOpen, setExplorerOpen] = useState<boolean>(false);
+  const [explorerIndex, setExplorerIndex] = useState<number>(0);
+  const [explorerAdd, setExplorerAdd] = useState<boolean>(false);
+  const [explorerSize, setExplorerSize] = useState<{ h?: number; v?: number }>({});
+  const [explorerRange, setExplorerRange] = useState<RefreshRange>(DEFAULT_REFRESH_RANGE);
+  const [explorerResolutions, setExplorerResolutions] = useState<boolean>(false);
+  const [sweepsOpen, setSweepsOpen] = useState<boolean>(false);
+  // Compatibility matrix: selected library modes, imported mode lists, DP presets and lane counts.
+  const [matrixOpen, setMatrixOpen] = useState<boolean>(false);
+  const [matrixModeKeys, setMatrixModeKeys] = useState<string[]>(()=> PREDEFINED_CHOICES.map(m=> m.key));
+  const [matrixImported, setMatrixImported] = useState<MatrixMode[]>([]);
+  const [matrixPresetIds, setMatrixPresetIds] = useState<string[]>(()=> DP_PRESETS.filter(p=> p.id!=="custom").map(p=> p.id));
+  const [matrixLanes, setMatrixLanes] = useState<number[]>([4]);
+  const [matrixIndex, setMatrixIndex] = useState<number>(0);
 
   React.useEffect(()=>{ setRate(preset.rate); setCoding(preset.coding); setLanes(preset.lanes); },[presetId]);
+  React.useEffect(()=>{ if(!usbc) return; const link = altModeLink(usbc); setRate(link.rate); setCoding(link.coding); setLanes(link.lanes); },[usbc]);
 
-  const eff = codingEfficiency(coding);
-  const rawCapacityGbps = rate * lanes;
-  const payloadCapacityGbps = rawCapacityGbps * eff;
-
-  const parsed = timings.map((t) => {
-    const peak = Number(t.peakBw) || 0;
-    const peakDsc = Number(t.peakBwDsc) || 0;
-    const selected = t.useDsc ? peakDsc : peak;
-    const pixelClock = typeof t.pixelClock === 'number' && Number.isFinite(t.pixelClock) ? t.pixelClock : undefined;
-    return { ...t, peak, peakDsc, selected, pixelClock };
+  const bandwidthConfig = useMemo(
+    () => ({ transport: { rate, lanes, coding, ssc }, timings, mst: topology?.nodes[0]?.kind === "branch", usb4: usb4 ?? undefined, displayEngines, profiles, sourceProfileId, sinkProfileId }),
+    [rate, lanes, coding, ssc, timings, topology, usb4, displayEngines, profiles, sourceProfileId, sinkProfileId],
+  );
+  const evaluation = useMemo(() => evaluateConfiguration(bandwidthConfig), [bandwidthConfig]);
+  const engineLimit = sourceDisplayEngines(bandwidthConfig);
+  const streamLimit = maxStreamCount(bandwidthConfig.transport, engineLimit);
+  const altModeLanes = useMemo(
+    () => usbc ? compareAltModeLanes(bandwidthConfig, usbc) : null,
+    [usbc, bandwidthConfig],
+  );
+  const fallbackCells = useMemo(
+    () => fallbackOpen ? linkFallbackMatrix(bandwidthConfig) : [],
+    [fallbackOpen, bandwidthConfig],
+  );
+  const explorerTemplate = timings[Math.min(explorerIndex, timings.length-1)];
+  const explorerH = explorerSize.h ?? (Number(explorerTemplate.h) || 3840);
+  const explorerV = explorerSize.v ?? (Number(explorerTemplate.v) || 2160);
+  const explorerSlot = explorerAdd ? timings.length : timings.indexOf(explorerTemplate);
+  const explorerLimit = useMemo(
+    () => explorerOpen ? maxRefreshRate(bandwidthConfig, explorerSlot, explorerTemplate, explorerH, explorerV, explorerRange) : null,
+    [explorerOpen, bandwidthConfig, explorerSlot, explorerTemplate, explorerH, explorerV, explorerRange],
+  );
+  const explorerTable = useMemo(
+    () => explorerOpen && explorerResolutions ? maxRefreshByResolution(bandwidthConfig, explorerSlot, explorerTemplate, explorerRange) : [],
+    [explorerOpen, explorerResolutions, bandwidthConfig, explorerSlot, explorerTemplate, explorerRange],
+  );
+  const fallbackLanes = [...new Set(fallbackCells.map(c=> c.link.lanes))];
+  const fallbackRates = [...new Set(fallbackCells.map(c=> c.rateName))];
+  const topologyEvaluation = useMemo(
+    () => topology ? evaluateTopology(topology, timings, { rate, lanes, coding, ssc }) : null,
+    [rate, lanes, coding, ssc, timings, topology],
+  );
+  const eff = evaluation.link.efficiency;
+  const hdmi = transportFamily(coding) === "hdmi";
+  const rawCapacityGbps = evaluation.link.rawGbps;
+  const payloadCapacityGbps = evaluation.link.payloadGbps;
+
+  const parsed = timings.map((t, index) => {
+    const result = evaluation.timings[index];
+    return { ...t, peak: result.peakGbps, peakDsc: result.peakDscGbps, selected: result.selectedGbps, pixelClock: result.pixelClockMHz, dscErrors: result.dscErrors, formatErrors: result.formatErrors, sdp: result.sdp, tmdsClock: result.tmdsClockMHz, transportErrors: result.transportErrors };
   });
-  const totalGbps = parsed.reduce((sum, row) => sum + row.selected, 0);
-  const fits = totalGbps <= payloadCapacityGbps + 1e-9;
-  const margin = payloadCapacityGbps - totalGbps;
-  const marginPct = payloadCapacityGbps>0 ? (margin/payloadCapacityGbps)*100 : 0;
-  const utilPct = clamp((totalGbps/Math.max(payloadCapacityGbps,1e-6))*100, 0, 100);
+  const totalGbps = evaluation.totalGbps;
+  const fits = evaluation.fits && (topologyEvaluation?.fits ?? true);
+  const margin = evaluation.marginGbps;
+  const marginPct = evaluation.marginPct;
+  const utilPct = evaluation.utilizationPct;
   const barColor = utilColor(fits, marginPct);
 
-  const mstAllocation = useMemo(() => {
-    const slotCount = MST_SLOT_TOTAL;
-    if (!Number.isFinite(payloadCapacityGbps) || payloadCapacityGbps <= 0 || parsed.length === 0) {
-      return {
-        slots: Array(slotCount).fill(null) as Array<number | null>,
-        slotCounts: Array(parsed.length).fill(0),
-        overflowSlots: 0,
-        totalExact: 0,
-      };
-    }
-
-    const selectedBandwidths = parsed.map((row) => Math.max(0, row.selected));
-    const exactSlots = selectedBandwidths.map((value) => (value / payloadCapacityGbps) * slotCount);
-    let slotCounts = exactSlots.map((value) => Math.max(0, Math.floor(value)));
-    let remaining = slotCount - slotCounts.reduce((sum, current) => sum + current, 0);
-    const remainders = exactSlots.map((value, index) => ({ index, fraction: value - Math.floor(value) }));
-
-    if (remaining > 0) {
-      const sorted = [...remainders].sort((a, b) => b.fraction - a.fraction);
-      for (const item of sorted) {
-        if (remaining <= 0) break;
-        slotCounts[item.index] += 1;
-        remaining -= 1;
-      }
-    } else if (remaining < 0) {
-      const sorted = [...remainders].sort((a, b) => a.fraction - b.fraction);
-      for (const item of sorted) {
-        if (remaining >= 0) break;
-        if (slotCounts[item.index] > 0) {
-          slotCounts[item.index] -= 1;
-          remaining += 1;
-        }
-      }
-      if (remaining < 0) {
-        for (let index = 0; index < slotCounts.length && remaining < 0; index += 1) {
-          while (slotCounts[index] > 0 && remaining < 0) {
-            slotCounts[index] -= 1;
-            remaining += 1;
-          }
-        }
-      }
-    }
-
-    const slots: Array<number | null> = Array(slotCount).fill(null);
-    let cursor = 0;
-    slotCounts.forEach((count, timingIndex) => {
-      for (let i = 0; i < count && cursor < slotCount; i += 1) {
-        slots[cursor] = timingIndex;
-        cursor += 1;
-      }
-    });
-
-    const totalExact = exactSlots.reduce((sum, value) => sum + value, 0);
-    const overflowSlots = totalExact > slotCount ? Math.round(totalExact - slotCount) : 0;
-
-    return { slots, slotCounts, overflowSlots, totalExact };
-  }, [parsed, payloadCapacityGbps]);
-
-  const mstSlots = mstAllocation.slots;
-  const slotCounts = mstAllocation.slotCounts;
-  const slotsUsed = slotCounts.reduce((sum, current) => sum + current, 0);
-  const overflowSlots = mstAllocation.overflowSlots;
+  const mstSlots = evaluation.mst.slots;
+  const slotCounts = evaluation.mst.slotCounts;
+  const slotsUsed = evaluation.mst.usedSlots;
+  const overflowSlots = evaluation.mst.overflowSlots;
+  const failedStreams = evaluation.mst.streams.filter(s=> !s.fits);
 
   const chartRows = parsed.map((t, index) => ({
-    name: t.label || Timing ,
+    name: t.label || `Timing ${index + 1}`,
     selected: t.useDsc ? t.peakDsc : t.peak,
     raw: t.peak,
   }));
@@ -412,216 +327,212 @@ export default function App(){
     ? Math.max(chartPeak, payloadCapacityGbps) * 1.1
     : 1;
 
+  // Per timing: stream Gbps against refresh for every CVT profile with and without DSC, and the
+  // payload left for it next to the other streams.
+  const sweeps = useMemo(() => sweepsOpen ? timings.map((t, index)=>{
+    if(!(Number(t.h) > 0 && Number(t.v) > 0)) return null;
+    const row = evaluation.timings[index];
+    const limitGbps = evaluation.link.payloadGbps - (evaluation.totalGbps - row.selectedGbps - row.sdpSpillGbps);
+    return { ...refreshSweepCurves(t, bandwidthConfig.transport, limitGbps), limitGbps };
+  }) : [], [sweepsOpen, timings, evaluation, bandwidthConfig]);
+
   const updateTiming = (id:string, patch:Partial<TimingRow>)=> setTimings(ts=> ts.map(t=> t.id===id ? ({...t, ...patch}) : t));
-  const addTiming = ()=> { if(timings.length<4) setTimings(ts=>[...ts, emptyTiming(ts.length)]); };
+  const addTiming = ()=> { if(timings.length<streamLimit) setTimings(ts=>[...ts, emptyTiming(ts.length)]); };
   const removeTiming = (id:string)=> setTimings(ts=> ts.filter(t=> t.id!==id));
+  const duplicateTiming = (id:string)=> { if(timings.length<streamLimit) setTimings(ts=> ts.flatMap(t=> t.id===id ? [t, { ...t, id: `${Date.now()}_d${ts.length}`, label: `${t.label} copy`, sinkId: undefined }] : [t])); };
+  const moveTiming = (index:number, delta:number)=> setTimings(ts=>{
+    const to = index + delta;
+    if(to < 0 || to >= ts.length) return ts;
+    const next = [...ts]; [next[index], next[to]] = [next[to], next[index]]; return next;
+  });
 
-  // When a mode is chosen, set H/V/Hz and refresh blanking by current generator, then compute and fill peaks.
-  function onChooseMode(t:TimingRow, modeIdx:number){
-    const m = PREDEFINED_MODES[modeIdx];
-    const kind = (t.cvtKind || "cvt_rb2") as CvtKind;
-
-    const bpc = Number(t.bpc) || DEFAULT_BPC;
-    const colorFormat = (t.colorFormat || DEFAULT_COLOR_FORMAT) as ColorFormatId;
-    const formatInfo = COLOR_FORMATS[colorFormat] ?? COLOR_FORMATS[DEFAULT_COLOR_FORMAT];
-    const ratio = t.dscRatio && t.dscRatio > 0 ? t.dscRatio : 3;
-
-    let timingResult: CvtTimingResult | null = null;
-    if (kind !== "manual") {
-      timingResult = calculateCvtTiming({
-        hActive: m.h,
-        vActive: m.v,
-        refreshHz: m.hz,
-        reducedBlanking: kind as CvtProfile,
-      });
-    }
-
-    const hFront = timingResult ? timingResult.hFront : (t.hFront ?? 8);
-    const hSync = timingResult ? timingResult.hSync : (t.hSync ?? 32);
-    const hBack = timingResult ? timingResult.hBack : (t.hBack ?? 120);
-    const vFront = timingResult ? timingResult.vFront : (t.vFront ?? 3);
-    const vSync = timingResult ? timingResult.vSync : (t.vSync ?? 6);
-    const vBack = timingResult ? timingResult.vBack : (t.vBack ?? 9);
-    const pixelClock = timingResult
-      ? timingResult.pixelClockMHz
-      : pixelClockMHzFromTotals(m.h, m.v, m.hz, hFront, hSync, hBack, vFront, vSync, vBack);
-
-    const bpp = bpc * formatInfo.factor;
-    const peak = streamGbpsFromClock(pixelClock, bpp);
-    const peakDsc = peak / ratio;
+  const edidChoices: ModeChoice[] = useMemo(() => (edid?.modes ?? []).map((m, i) =>
+    exactChoice(`edid:${i}`, `${m.label}${m.preferred ? " (preferred)" : ""}`, m)), [edid]);
+  const modeChoices = [...PREDEFINED_CHOICES, ...VIC_CHOICES, ...DMT_CHOICES, ...edidChoices];
+  const modeKeyOf = (t:TimingRow)=> t.modeKey ?? String(t.modeIndex ?? 0);
+
+  // Library entries matching the card's search; the selected entry stays listed so the trigger keeps its label.
+  const libraryChoices = (t:TimingRow, choices:ModeChoice[])=>{
+    const query = modeFilters[t.id] ?? "";
+    if(!query.trim()) return choices;
+    const keys = new Set(searchStandardTimings(query).map(m=> m.key));
+    return choices.filter(c=> keys.has(c.key) || c.key===t.modeKey);
+  };
 
+  // When a mode is chosen, set H/V/Hz and refresh blanking by current generator, then compute and fill peaks.
+  // Library and EDID modes keep their exact porches and clock unless a CVT generator is picked explicitly.
+  function onChooseMode(t:TimingRow, key:string, kind?:CvtKind){
+    const m = modeChoices.find(c=> c.key===key);
+    if(!m) return;
+    const current = t.cvtKind || "cvt_rb2";
+    const generator = kind ?? (m.exact ? "exact" : current==="exact" ? "cvt_rb2" : current);
+    const resolved = generator==="exact" && m.exact
+      ? resolveTiming({ ...t, ...exactTimingParams(m.exact) })
+      : resolveTiming({ ...t, h: m.h, v: m.v, hz: m.hz, cvtKind: generator });
     updateTiming(t.id, {
-      modeIndex: modeIdx,
-      h: m.h,
-      v: m.v,
-      hz: m.hz,
-      hFront,
-      hSync,
-      hBack,
-      vFront,
-      vSync,
-      vBack,
-      bpc,
-      colorFormat,
-      bpp,
-      dscRatio: ratio,
-      pixelClock,
-      peakBw: peak.toFixed(4),
-      peakBwDsc: peakDsc.toFixed(4),
+      modeKey: m.exact ? key : undefined,
+      modeIndex: m.exact ? t.modeIndex : Number(key),
+      modeSource: generator==="exact" && m.exact ? m.exact.source : undefined,
+      ...applyResolved(resolved),
     });
   }
 
+  const loadEdid = (input: Uint8Array | string)=>{
+    try{
+      const info = parseEdid(input);
+      setEdid(info); setEdidError("");
+    } catch(err){
+      setEdidError(err instanceof EdidParseError ? err.message : "Could not read EDID data.");
+    }
+  };
+
+  const onImportEdid = (e:React.ChangeEvent<HTMLInputElement>)=>{
+    const file = e.target.files?.[0]; if(!file) return; const r=new FileReader();
+    r.onload = ()=> loadEdid(new Uint8Array(r.result as ArrayBuffer));
+    r.readAsArrayBuffer(file); e.target.value="";
+  };
+
   // Manual recompute based on current fields (inside submenu)
   function computeAndFill(id:string){
-    setTimings(ts=> ts.map(t=>{
-      if(t.id!==id) return t;
-      const h = Number(t.h) || 1920;
-      const v = Number(t.v) || 1080;
-      const hz = Number(t.hz) || 60;
-      const kind = (t.cvtKind || "cvt_rb2") as CvtKind;
-
-      const bpc = Number(t.bpc) || DEFAULT_BPC;
-      const colorFormat = (t.colorFormat || DEFAULT_COLOR_FORMAT) as ColorFormatId;
-      const formatInfo = COLOR_FORMATS[colorFormat] ?? COLOR_FORMATS[DEFAULT_COLOR_FORMAT];
-      const ratio = t.dscRatio && t.dscRatio > 0 ? t.dscRatio : 3;
-
-      let hFront: number;
-      let hSync: number;
-      let hBack: number;
-      let vFront: number;
-      let vSync: number;
-      let vBack: number;
-      let pixelClock: number;
-
-      if (kind === "manual") {
-        hFront = Number(t.hFront) || 8;
-        hSync = Number(t.hSync) || 32;
-        hBack = Number(t.hBack) || 120;
-        vFront = Number(t.vFront) || 3;
-        vSync = Number(t.vSync) || 6;
-        vBack = Number(t.vBack) || 9;
-        pixelClock = pixelClockMHzFromTotals(h, v, hz, hFront, hSync, hBack, vFront, vSync, vBack);
-      } else {
-        const result = calculateCvtTiming({
-          hActive: h,
-          vActive: v,
-          refreshHz: hz,
-          reducedBlanking: kind as CvtProfile,
-        });
-        hFront = result.hFront;
-        hSync = result.hSync;
-        hBack = result.hBack;
-        vFront = result.vFront;
-        vSync = result.vSync;
-        vBack = result.vBack;
-        pixelClock = result.pixelClockMHz;
-      }
-
-      const bpp = bpc * formatInfo.factor;
-      const peak = streamGbpsFromClock(pixelClock, bpp);
-      const peakDsc = peak / ratio;
-
-      return {
-        ...t,
-        h,
-        v,
-        hz,
-        hFront,
-        hSync,
-        hBack,
-        vFront,
-        vSync,
-        vBack,
-        bpc,
-        colorFormat,
-        bpp,
-        dscRatio: ratio,
-        pixelClock,
-        peakBw: peak.toFixed(4),
-        peakBwDsc: peakDsc.toFixed(4),
-      };
-    }));
+    setTimings(ts=> ts.map(t=> t.id===id ? { ...t, ...applyResolved(resolveTiming(t)) } : t));
+  }
+
+  // CVT or DSC option change: regenerate blanking and peaks from the card's current H/V/Hz.
+  function updateAndResolve(t:TimingRow, patch:Partial<TimingRow>){
+    updateTiming(t.id, { ...patch, ...applyResolved(resolveTiming({ ...t, ...patch })) });
   }
 
+  const newNode = (kind:TopologyNode["kind"], parentId?:string, index=0): TopologyNode => ({
+    id: `${Date.now()}_n${index}`,
+    label: kind==="branch" ? (parentId ? "Daisy-chain monitor" : "MST hub") : "Monitor",
+    kind, parentId,
+    // Root devices use the source link configured above.
+    link: parentId ? { rate, lanes, coding, ssc } : undefined,
+    presetId: parentId ? presetId : undefined,
+  });
+  const updateNode = (id:string, patch:Partial<TopologyNode>)=> setTopology(tp=> tp && ({ nodes: tp.nodes.map(n=> n.id===id ? { ...n, ...patch } : n) }));
+  const addNode = (parentId:string, kind:TopologyNode["kind"])=> setTopology(tp=> tp && ({ nodes: [...tp.nodes, newNode(kind, parentId, tp.nodes.length)] }));
+  const removeNode = (id:string)=>{
+    if(!topology) return;
+    const removed = new Set([id]);
+    for(let grew=true; grew;){ grew=false; for(const n of topology.nodes){ if(n.parentId && removed.has(n.parentId) && !removed.has(n.id)){ removed.add(n.id); grew=true; } } }
+    const nodes = topology.nodes.filter(n=> !removed.has(n.id));
+    setTopology(nodes.length ? { nodes } : null);
+    setTimings(ts=> ts.map(t=> t.sinkId && removed.has(t.sinkId) ? { ...t, sinkId: undefined } : t));
+  };
+
+  const runSolver = ()=> setSolverResult(solveToFit({ ...bandwidthConfig, mst: evaluation.link.mst }, timings.map(t=> t.solverLocks ?? {})));
+  const applySolution = (choices:SolverChoice[])=>{
+    setTimings(ts=> ts.map((t, i)=>{
+      const c = choices[i];
+      if(!c) return t;
+      const patch: Partial<TimingRow> = { useDsc: c.useDsc, dscBpp: c.useDsc ? c.dscBpp : t.dscBpp, bpc: c.bpc, colorFormat: c.colorFormat, cvtKind: c.cvtKind };
+      return Number(t.h) > 0 ? { ...t, ...patch, ...applyResolved(resolveTiming({ ...t, ...patch })) } : t;
+    }));
+    setSolverResult(null);
+  };
+  const describeChoice = (c:SolverChoice)=> `${COLOR_FORMATS[c.colorFormat].label} ${c.bpc}-bit, ${c.useDsc ? `DSC ${c.dscBpp} bpp` : "uncompressed"}${c.cvtKind ? `, ${c.cvtKind}` : ""}`;
+
+  const newUsb4 = (): Usb4Config => ({ speedId: "gen3x2", pcieReserveGbps: 0, usb3ReserveGbps: 0, bandwidthAllocationMode: false, adapters: [{ id: "dpin_primary", label: "DP IN (this link)" }] });
+  const updateUsb4 = (patch:Partial<Usb4Config>)=> setUsb4(u=> u && ({ ...u, ...patch }));
+  const updateAdapter = (id:string, patch:Partial<Usb4DpAdapter>)=> setUsb4(u=> u && ({ ...u, adapters: u.adapters.map(a=> a.id===id ? { ...a, ...patch } : a) }));
+  const addAdapter = ()=> setUsb4(u=> u && ({ ...u, adapters: [...u.adapters, { id: `dpin_${Date.now()}`, label: `DP IN ${u.adapters.length + 1}`, presetId: "dp13_hbr3", link: { rate: 8.1, lanes: 4, coding: "8b10b" } }] }));
+  const moveAdapterUp = (index:number)=> setUsb4(u=> u && index > 0 ? ({ ...u, adapters: u.adapters.map((a, i)=> i===index-1 ? u.adapters[index] : i===index ? u.adapters[index-1] : a) }) : u);
+  const removeAdapter = (id:string)=> setUsb4(u=> u && ({ ...u, adapters: u.adapters.filter(a=> a.id!==id) }));
+
+  // Take the explorer's best refresh into the template card, or add it as a new card.
+  const applyExplorer = (h:number, v:number, hz:number)=>{
+    const patch: Partial<TimingRow> = { h, v, hz, cvtKind: explorerGenerator(explorerTemplate.cvtKind) };
+    if(!explorerAdd){ updateAndResolve(explorerTemplate, patch); return; }
+    if(timings.length>=streamLimit) return;
+    setTimings(ts=> [...ts, { ...explorerTemplate, ...patch, ...applyResolved(resolveTiming({ ...explorerTemplate, ...patch })), id: `${Date.now()}_x${ts.length}`, label: `${h}×${v}@${hz}`, sinkId: undefined, collapsed: false }]);
+    setExplorerAdd(false);
+  };
+
+  const toggle = <T,>(list:T[], item:T, on:boolean)=> on ? [...list.filter(x=> x!==item), item] : list.filter(x=> x!==item);
+  const matrixTemplate = timings[Math.min(matrixIndex, timings.length-1)];
+  const matrix = useMemo(()=>{
+    if(!matrixOpen) return null;
+    const modes: MatrixMode[] = [
+      ...[...PREDEFINED_CHOICES, ...edidChoices].filter(m=> matrixModeKeys.includes(m.key)).map(m=> ({ label: m.label, timing: m.exact ? exactTimingParams(m.exact) : { h: m.h, v: m.v, hz: m.hz } })),
+      ...matrixImported,
+    ];
+    const links = matrixLinks(DP_PRESETS.filter(p=> matrixPresetIds.includes(p.id)), matrixLanes, ssc);
+    return compatibilityMatrix(modes, links, {
+      bpc: Number(matrixTemplate.bpc) || DEFAULT_BPC,
+      colorFormat: matrixTemplate.colorFormat ?? DEFAULT_COLOR_FORMAT,
+      cvtKind: explorerGenerator(matrixTemplate.cvtKind),
+      dscBpp: matrixTemplate.dscBpp,
+    });
+  }, [matrixOpen, edidChoices, matrixModeKeys, matrixImported, matrixPresetIds, matrixLanes, ssc, matrixTemplate]);
+  // Generated EDID for the configured timings; the first card is the preferred timing.
+  const builtEdid = useMemo(()=>{
+    if(!timings.length) return null;
+    const modes = timings.map(t=> modeTiming(t, t.cvtKind==="exact" ? t.modeSource : undefined));
+    return buildEdid(modes, {
+      monitorName: edidBuildName,
+      manufacturerId: edidBuildManufacturer,
+      bpc: Number(timings[0].bpc) || DEFAULT_BPC,
+      ycbcr: timings.some(t=> (t.colorFormat ?? DEFAULT_COLOR_FORMAT)!=="rgb"),
+    });
+  }, [timings, edidBuildName, edidBuildManufacturer]);
+  const onImportModeList = (e:React.ChangeEvent<HTMLInputElement>)=>{
+    const file = e.target.files?.[0]; if(!file) return; const r=new FileReader();
+    r.onload = ()=>{ try{
+      const modes = parseModeList(String(r.result||""));
+      if(!modes.length) alert("No modes found in the file.");
+      setMatrixImported(ms=> [...ms, ...modes]);
+    } catch(err){ alert("Invalid mode list file."); } };
+    r.readAsText(file); e.target.value="";
+  };
+
+  const updateProfile = (id:string, patch:Partial<CapabilityProfile>)=> setProfiles(ps=> ps.map(p=> p.id===id ? { ...p, ...patch } : p));
+  const addProfile = (role:CapabilityProfile["role"])=> setProfiles(ps=> [...ps, { id: `profile_${Date.now()}`, label: role === "source" ? "New source" : "New sink", role }]);
+  const removeProfile = (id:string)=>{
+    setProfiles(ps=> ps.filter(p=> p.id!==id));
+    if(sourceProfileId===id) setSourceProfileId(undefined);
+    if(sinkProfileId===id) setSinkProfileId(undefined);
+    setTimings(ts=> ts.map(t=> t.sinkProfileId===id ? { ...t, sinkProfileId: undefined } : t));
+  };
+  // Imported profiles replace library entries with the same id and are appended otherwise.
+  const onImportProfiles = (e:React.ChangeEvent<HTMLInputElement>)=>{
+    const file = e.target.files?.[0]; if(!file) return; const r=new FileReader();
+    r.onload = ()=>{ try{
+      const imported = parseProfilesJson(String(r.result||"[]"));
+      setProfiles(ps=> [...ps.filter(p=> !imported.some(i=> i.id===p.id)), ...imported]);
+    } catch(err){ alert("Invalid profile JSON file."); } };
+    r.readAsText(file); e.target.value="";
+  };
+  const profileLimit = (value:string)=> Number(value) > 0 ? Number(value) : undefined;
+  const sourceProfiles = profiles.filter(p=> p.role==="source");
+  const sinkProfiles = profiles.filter(p=> p.role==="sink");
+
   const exportJson = ()=>{
-    const data = { timings: parsed.map(({id,label,peakBw,peakBwDsc,useDsc,...rest})=>({id,label,peakBw,peakBwDsc,useDsc,...rest})), transport:{rate,lanes,coding,eff}, presetId };
+    const data = { timings: parsed.map(({id,label,peakBw,peakBwDsc,useDsc,dscErrors,formatErrors,sdp,tmdsClock,transportErrors,...rest})=>({id,label,peakBw,peakBwDsc,useDsc,...rest})), transport:{rate,lanes,coding,ssc,eff}, presetId, ...(topology ? { topology } : {}), ...(usb4 ? { usb4 } : {}), ...(usbc ? { usbc } : {}), ...(displayEngines ? { displayEngines } : {}), profiles, ...(sourceProfileId ? { sourceProfileId } : {}), ...(sinkProfileId ? { sinkProfileId } : {}) };
     const blob = new Blob([JSON.stringify(data,null,2)],{type:"application/json"});
     const url = URL.createObjectURL(blob); const a = document.createElement("a"); a.href=url; a.download="dp_multi_timing_config.json"; a.click(); URL.revokeObjectURL(url);
   };
 
   const onImport = (e:React.ChangeEvent<HTMLInputElement>)=>{
     const file = e.target.files?.[0]; if(!file) return; const r=new FileReader();
-    r.onload = ()=>{ try{ const j=JSON.parse(String(r.result||"{}")); if(Array.isArray(j.timings)){
-      const restored:TimingRow[] = j.timings.map((t:any,i:number)=>{
-        const importedFormat = typeof t.colorFormat === "string" && t.colorFormat in COLOR_FORMATS ? (t.colorFormat as ColorFormatId) : DEFAULT_COLOR_FORMAT;
-        const rawBpc = Number(t.bpc);
-        const bpc = Number.isFinite(rawBpc) && rawBpc > 0 ? rawBpc : DEFAULT_BPC;
-        const formatInfo = COLOR_FORMATS[importedFormat] ?? COLOR_FORMATS[DEFAULT_COLOR_FORMAT];
-        const rawBpp = Number(t.bpp);
-        const bpp = Number.isFinite(rawBpp) && rawBpp > 0 ? rawBpp : bpc * formatInfo.factor;
-
-        const h = Number(t.h);
-        const v = Number(t.v);
-        const hz = Number(t.hz);
-        const hFront = Number(t.hFront);
-        const hSync = Number(t.hSync);
-        const hBack = Number(t.hBack);
-        const vFront = Number(t.vFront);
-        const vSync = Number(t.vSync);
-        const vBack = Number(t.vBack);
-
-        const hasTotals = [h, v, hz, hFront, hSync, hBack, vFront, vSync, vBack].every((value) => Number.isFinite(value));
-        const rawPixelClock = Number(t.pixelClock);
-        const computedPixelClock = hasTotals
-          ? pixelClockMHzFromTotals(
-              h as number,
-              v as number,
-              hz as number,
-              hFront as number,
-              hSync as number,
-              hBack as number,
-              vFront as number,
-              vSync as number,
-              vBack as number
-            )
-          : undefined;
-        const pixelClock = Number.isFinite(rawPixelClock) && rawPixelClock > 0 ? rawPixelClock : computedPixelClock;
-
-        return {
-          id: t.id || `${Date.now()}_${i}`,
-          label: String(t.label ?? `Timing ${i + 1}`),
-          peakBw: String(t.peakBw ?? ""),
-          peakBwDsc: String(t.peakBwDsc ?? ""),
-          useDsc: Boolean(t.useDsc),
-          calcOpen: Boolean(t.calcOpen),
-          modeIndex: typeof t.modeIndex === 'number' ? t.modeIndex : 0,
-          cvtKind: t.cvtKind || "cvt_rb2",
-          h: Number.isFinite(h) ? (h as number) : undefined,
-          v: Number.isFinite(v) ? (v as number) : undefined,
-          hz: Number.isFinite(hz) ? (hz as number) : undefined,
-          hFront: Number.isFinite(hFront) ? (hFront as number) : undefined,
-          hSync: Number.isFinite(hSync) ? (hSync as number) : undefined,
-          hBack: Number.isFinite(hBack) ? (hBack as number) : undefined,
-          vFront: Number.isFinite(vFront) ? (vFront as number) : undefined,
-          vSync: Number.isFinite(vSync) ? (vSync as number) : undefined,
-          vBack: Number.isFinite(vBack) ? (vBack as number) : undefined,
-          bpp,
-          bpc,
-          colorFormat: importedFormat,
-          dscRatio: t.dscRatio,
-          pixelClock,
-        };
-      }).slice(0,4);
+    r.onload = ()=>{ try{ const j=parseConfigJson(String(r.result||"{}"), { rate, lanes, coding, ssc }); if(j.hasTimings){
+      const restored:TimingRow[] = j.timings;
       setTimings(restored.length? restored : [emptyTiming(0)]);
     }
-    if(j.transport){
-      setRate(Number(j.transport.rate)||rate);
-      const importedLanes = Number(j.transport.lanes);
-      const laneOption = LANE_OPTIONS.includes(importedLanes as (typeof LANE_OPTIONS)[number]) ? importedLanes : LANE_OPTIONS[LANE_OPTIONS.length-1];
-      setLanes(laneOption);
-      setCoding(j.transport.coding==="8b10b"?"8b10b":"128b/132b" as any);
+    if(j.hasTransport){
+      setRate(j.transport.rate);
+      setLanes(j.transport.lanes);
+      setCoding(j.transport.coding);
+      setSsc(j.transport.ssc !== false);
     }
-    if(typeof j.presetId==="string") setPresetId(j.presetId); } catch(err){ alert("Invalid JSON file."); } };
+    if(j.presetId) setPresetId(j.presetId);
+    setTopology(j.topology?.nodes.length ? j.topology : null);
+    setUsb4(j.usb4 ?? null);
+    setUsbc(j.usbc ?? null);
+    setDisplayEngines(j.displayEngines);
+    if(j.profiles) setProfiles(j.profiles);
+    setSourceProfileId(j.sourceProfileId);
+    setSinkProfileId(j.sinkProfileId); } catch(err){ alert("Invalid JSON file."); } };
     r.readAsText(file); e.target.value="";
   };
 
@@ -629,26 +540,29 @@ export default function App(){
     <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 text-slate-800">
       <div className="max-w-3xl mx-auto p-6">
         <motion.h1 initial={{opacity:0,y:-6}} animate={{opacity:1,y:0}} className="text-3xl md:text-4xl font-bold tracking-tight">DP Multi‑Timing Bandwidth Checker</motion.h1>
-        <p className="mt-2 text-sm text-slate-600 flex items-start gap-2"><Info className="w-4 h-4 mt-0.5"/>Pick modes first; manual overrides live in the submenu. Up to 4 timings, stacked vertically.</p>
+        <p className="mt-2 text-sm text-slate-600 flex items-start gap-2"><Info className="w-4 h-4 mt-0.5"/>Pick modes first; manual overrides live in the submenu. Add as many timings as the link carries streams (one on HDMI, up to 63 over MST or the source's display engines).</p>
 
         {/* Transport */}
         <Card className="mt-6 rounded-2xl shadow-sm"><CardContent className="p-5 grid gap-4">
-          <div className="text-sm font-semibold uppercase tracking-wide text-slate-500">DisplayPort Link</div>
+          <div className="text-sm font-semibold uppercase tracking-wide text-slate-500">{hdmi ? "HDMI Link" : "DisplayPort Link"}</div>
           <div className="grid gap-3">
             <div>
               <label className="text-sm font-medium">Transport preset</label>
-              <Select value={presetId} onValueChange={setPresetId}>
+              <Select value={presetId} onValueChange={setPresetId} disabled={Boolean(usbc)}>
                 <SelectTrigger className="mt-1"><SelectValue placeholder="Select preset"/></SelectTrigger>
-                <SelectContent>{DP_PRESETS.map(p=>(<SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>))}</SelectContent>
+                <SelectContent>
+                  <SelectGroup><SelectLabel>DisplayPort</SelectLabel>{DP_PRESETS.map(p=>(<SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>))}</SelectGroup>
+                  <SelectGroup><SelectLabel>HDMI / DP++</SelectLabel>{HDMI_PRESETS.map(p=>(<SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>))}</SelectGroup>
+                </SelectContent>
               </Select>
             </div>
             <div className="grid grid-cols-3 gap-3 items-end">
               <div>
                 <label className="text-sm font-medium">Lanes</label>
-                <Select value={String(lanes)} onValueChange={(value)=>setLanes(Number(value))}>
+                <Select value={String(lanes)} onValueChange={(value)=>setLanes(Number(value))} disabled={Boolean(usbc)}>
                   <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
                   <SelectContent>
-                    {LANE_OPTIONS.map(option => (
+                    {laneOptions(coding).map(option => (
                       <SelectItem key={option} value={String(option)}>
                         {option} Lane{option > 1 ? "s" : ""}
                       </SelectItem>
@@ -656,81 +570,539 @@ export default function App(){
                   </SelectContent>
                 </Select>
               </div>
-              <div><label className="text-sm font-medium">Per‑lane rate (Gbps)</label><Input type="number" step="0.01" className="mt-1" value={rate} onChange={e=>setRate(Number(e.target.value)||0)}/></div>
+              <div><label className="text-sm font-medium">Per‑lane rate (Gbps)</label><Input type="number" step="0.01" className="mt-1" value={rate} disabled={Boolean(usbc)} onChange={e=>setRate(Number(e.target.value)||0)}/></div>
               <div>
                 <label className="text-sm font-medium">Coding</label>
-                <Select value={coding} onValueChange={(v:any)=>setCoding(v)}>
+                <Select value={coding} onValueChange={(v:any)=>{ setCoding(v); const options = laneOptions(v); if(!options.includes(lanes)) setLanes(options[options.length-1]); }} disabled={Boolean(usbc)}>
                   <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
-                  <SelectContent><SelectItem value="8b10b">8b/10b</SelectItem><SelectItem value="128b132b">128b/132b</SelectItem></SelectContent>
+                  <SelectContent>{CODINGS.map(c=>(<SelectItem key={c.id} value={c.id}>{c.label}</SelectItem>))}</SelectContent>
                 </Select>
               </div>
             </div>
+            <label className="inline-flex items-center gap-2 text-sm"><Switch checked={ssc && !hdmi} disabled={hdmi} onCheckedChange={setSsc}/> SSC downspread (0.5%)</label>
+            <label className="inline-flex items-center gap-2 text-sm"><Switch checked={Boolean(usbc)} disabled={hdmi} onCheckedChange={v=>{ setUsbc(v ? { pinAssignment: "C", keepUsbData: false, cable: "full_featured" } : null); if(!v) { setRate(preset.rate); setCoding(preset.coding); setLanes(preset.lanes); } }}/> USB-C DP Alt Mode</label>
+            <label className="inline-flex items-center gap-2 text-sm"><Switch checked={Boolean(usb4)} disabled={hdmi} onCheckedChange={v=>setUsb4(v ? newUsb4() : null)}/> <Cable className="w-4 h-4"/> Tunneled over USB4 / Thunderbolt</label>
+            <div className="grid grid-cols-3 gap-3 items-end">
+              <div><label className="text-sm font-medium">Source display engines</label><Input type="number" min={1} step="1" className="mt-1" placeholder="Unlimited" value={displayEngines ?? ""} onChange={e=>setDisplayEngines(Number(e.target.value) > 0 ? Math.floor(Number(e.target.value)) : undefined)}/></div>
+              <div className="col-span-2 text-xs text-slate-500 pb-2">Stream limit: {streamLimit} {streamLimit === 1 ? "stream" : "streams"} ({hdmi ? "HDMI is single-stream" : streamLimit === engineLimit ? "source display engines" : "MST payload IDs"}).</div>
+            </div>
           </div>
 
+          {usbc && altModeLanes && (
+            <div className="rounded-xl border bg-white p-3 grid gap-3 text-xs">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 items-end">
+                <div>
+                  <label className="font-medium">Pin assignment</label>
+                  <Select value={effectivePinAssignment(usbc)} onValueChange={(v:any)=>setUsbc({ ...usbc, pinAssignment: v })}>
+                    <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
+                    <SelectContent>{PIN_ASSIGNMENTS.map(pa=>(<SelectItem key={pa.id} value={pa.id} disabled={usbc.keepUsbData && !pa.usbData}>{pa.label}</SelectItem>))}</SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="font-medium">Cable</label>
+                  <Select value={usbc.cable} onValueChange={(v:any)=>setUsbc({ ...usbc, cable: v })}>
+                    <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
+                    <SelectContent>{USBC_CABLES.map(c=>(<SelectItem key={c.id} value={c.id}>{c.label}</SelectItem>))}</SelectContent>
+                  </Select>
+                </div>
+                <label className="inline-flex items-center gap-2"><Switch checked={usbc.keepUsbData} onCheckedChange={v=>setUsbc({ ...usbc, keepUsbData: v })}/> Keep SuperSpeed USB data</label>
+              </div>
+              <div className="text-slate-500">Derived link: {lanes} lane{lanes > 1 ? "s" : ""} at {rate} Gbps ({codingLabel(coding)})</div>
+              <table className="w-full text-left">
+                <thead><tr className="text-slate-500"><th className="font-medium">Timing</th>{altModeLanes.map(o=>(<th key={o.pinAssignment} className="font-medium">Pin {o.pinAssignment}: {o.link.lanes} lanes{o.pinAssignment==="D" ? " + USB 3.x" : ""}</th>))}</tr></thead>
+                <tbody>
+                  {timings.map((t, i)=>(<tr key={t.id}><td>{t.label}</td>{altModeLanes.map(o=>(<td key={o.pinAssignment} className={o.timingFits[i] ? "text-emerald-700" : "text-red-600"}>{o.timingFits[i] ? "fits" : "does not fit"}</td>))}</tr>))}
+                  <tr className="font-medium"><td>All timings</td>{altModeLanes.map(o=>(<td key={o.pinAssignment} className={o.evaluation.fits ? "text-emerald-700" : "text-red-600"}>{o.evaluation.totalGbps.toFixed(2)} / {o.evaluation.link.payloadGbps.toFixed(2)} Gbps</td>))}</tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {usb4 && evaluation.usb4 && (
+            <div className="rounded-xl border bg-white p-3 grid gap-3 text-xs">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+                <div>
+                  <label className="font-medium">Router link</label>
+                  <Select value={usb4.speedId} onValueChange={(v:any)=>updateUsb4({ speedId: v })}>
+                    <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
+                    <SelectContent>{USB4_SPEEDS.map(sp=>(<SelectItem key={sp.id} value={sp.id}>{sp.label}</SelectItem>))}</SelectContent>
+                  </Select>
+                </div>
+                <div><label className="font-medium">PCIe reserve (Gbps)</label><Input className="mt-1" type="number" min={0} step={0.5} value={usb4.pcieReserveGbps} onChange={e=>updateUsb4({ pcieReserveGbps: Number(e.target.value)||0 })}/></div>
+                <div><label className="font-medium">USB3 reserve (Gbps)</label><Input className="mt-1" type="number" min={0} step={0.5} value={usb4.usb3ReserveGbps} onChange={e=>updateUsb4({ usb3ReserveGbps: Number(e.target.value)||0 })}/></div>
+                <label className="inline-flex items-center gap-2"><Switch checked={usb4.bandwidthAllocationMode} onCheckedChange={v=>updateUsb4({ bandwidthAllocationMode: v })}/> Bandwidth allocation mode</label>
+              </div>
+              <div className="text-slate-500">Fabric {evaluation.usb4.fabricGbps.toFixed(2)} Gbps − reserved {evaluation.usb4.reservedGbps.toFixed(2)} = {evaluation.usb4.availableGbps.toFixed(2)} Gbps for DP tunnels, granted in order</div>
+              {usb4.adapters.map((adapter, index)=>{
+                const grant = evaluation.usb4.tunnels.find(tn=> tn.id===adapter.id);
+                const link = adapter.link;
+                return (
+                  <div key={adapter.id} className={`flex flex-wrap items-center gap-2 rounded-lg border p-2 ${grant && grant.grantedGbps < grant.requestGbps - 1e-9 ? "bg-red-50 border-red-200" : ""}`}>
+                    <Input className="h-8 w-40" value={adapter.label} onChange={e=>updateAdapter(adapter.id,{ label: e.target.value })}/>
+                    {link ? (<>
+                      <Select value={adapter.presetId ?? "custom"} onValueChange={(id)=>{ const pr = DP_PRESETS.find(x=> x.id===id); if(pr) updateAdapter(adapter.id,{ presetId: id, link: { rate: pr.rate, lanes: pr.lanes, coding: pr.coding } }); }}>
+                        <SelectTrigger className="h-8 w-64"><SelectValue/></SelectTrigger>
+                        <SelectContent>{DP_PRESETS.map(pr=>(<SelectItem key={pr.id} value={pr.id}>{pr.label}</SelectItem>))}</SelectContent>
+                      </Select>
+                      <Input className="h-8 w-28" type="number" min={0} step={0.1} placeholder="Demand Gbps" value={adapter.demandGbps ?? ""} onChange={e=>updateAdapter(adapter.id,{ demandGbps: e.target.value==="" ? undefined : Number(e.target.value)||0 })}/>
+                    </>) : <span className="text-slate-500">Carries the timings below</span>}
+                    {grant && <span className="text-slate-600">requests {grant.requestGbps.toFixed(2)} · granted {grant.grantedGbps.toFixed(2)} · usable {grant.usableGbps.toFixed(2)} Gbps</span>}
+                    <div className="ml-auto flex items-center gap-1">
+                      <Button size="icon" variant="ghost" disabled={index===0} onClick={()=>moveAdapterUp(index)}><ArrowUp className="w-4 h-4"/></Button>
+                      {link && <Button size="icon" variant="ghost" onClick={()=>removeAdapter(adapter.id)}><Trash2 className="w-4 h-4"/></Button>}
+                    </div>
+                  </div>
+                );
+              })}
+              <div><Button size="sm" variant="outline" onClick={addAdapter}><Plus className="w-3 h-3 mr-1"/> DP IN adapter</Button></div>
+            </div>
+          )}
+
           <div className="grid md:grid-cols-3 gap-3 text-sm">
-            <div className="p-3 rounded-xl bg-white border"><div className="font-medium">Raw line rate</div><div className="text-2xl font-bold">{rawCapacityGbps.toFixed(2)} <span className="text-base font-medium">Gbps</span></div><div className="text-slate-500">{rate.toFixed(2)} × {lanes} lanes</div></div>
-            <div className="p-3 rounded-xl bg-white border"><div className="font-medium">Coding efficiency</div><div className="text-2xl font-bold">{(eff*100).toFixed(2)}%</div><div className="text-slate-500">{coding==="8b10b"?"8b/10b (×0.8)":"128b/132b (×128/132)"}</div></div>
-            <div className="p-3 rounded-xl bg-white border"><div className="font-medium">Usable payload</div><div className="text-2xl font-bold">{payloadCapacityGbps.toFixed(2)} <span className="text-base font-medium">Gbps</span></div><div className="text-slate-500">After line‑coding overhead</div></div>
+            <div className="p-3 rounded-xl bg-white border"><div className="font-medium">Raw line rate</div><div className="text-2xl font-bold">{rawCapacityGbps.toFixed(2)} <span className="text-base font-medium">Gbps</span></div><div className="text-slate-500">{rate.toFixed(2)} × {lanes} lanes{coding==="tmds" ? `, TMDS clock ≤ ${maxTmdsClockMHz({ rate, lanes, coding }).toFixed(0)} MHz` : ""}</div></div>
+            <div className="p-3 rounded-xl bg-white border"><div className="font-medium">Link efficiency</div><div className="text-2xl font-bold">{(eff*100).toFixed(2)}%</div><div className="text-slate-500">{codingLabel(coding)} (×{evaluation.link.overheads[0].factor.toFixed(4)}){evaluation.link.fec ? " + FEC" : ""}{evaluation.link.mst ? ", MST" : ""}</div></div>
+            <div className="p-3 rounded-xl bg-white border"><div className="font-medium">Usable payload</div><div className="text-2xl font-bold">{payloadCapacityGbps.toFixed(2)} <span className="text-base font-medium">Gbps</span></div>
+              <div className="mt-1 grid gap-0.5 text-xs text-slate-500">
+                {evaluation.link.overheads.map(o=>(<div key={o.id} className="flex justify-between gap-2"><span>{o.label}</span><span>−{o.lossGbps.toFixed(2)}</span></div>))}
+              </div>
+            </div>
           </div>
         </CardContent></Card>
+
+        {/* Link-training fallback */}
+        <Card className="mt-4 rounded-2xl shadow-sm"><CardContent className="p-5 grid gap-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold uppercase tracking-wide text-slate-500">Link Training Fallback</div>
+            <Button size="icon" variant="ghost" onClick={()=>setFallbackOpen(o=>!o)}><ChevronDown className={`w-4 h-4 transition-transform ${fallbackOpen ? 'rotate-180' : ''}`}/></Button>
+          </div>
+          {fallbackOpen && (hdmi ? <div className="text-xs text-slate-500">Fallback analysis covers DisplayPort links only.</div> : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-left border-separate border-spacing-1">
+                <thead><tr className="text-slate-500"><th className="font-medium">Rate</th>{fallbackLanes.map(n=>(<th key={n} className="font-medium">{n} lane{n > 1 ? "s" : ""}</th>))}</tr></thead>
+                <tbody>
+                  {fallbackRates.map(name=>(
+                    <tr key={name}>
+                      <td className="font-medium align-top">{name}</td>
+                      {fallbackCells.filter(c=> c.rateName===name).map(cell=>{
+                        const needDsc = cell.actions.flatMap((a, i)=> a==="dsc" ? [timings[i]?.label] : []);
+                        const dropped = cell.actions.flatMap((a, i)=> a==="drop" ? [timings[i]?.label] : []);
+                        return (
+                          <td key={cell.link.lanes} className={`align-top rounded-lg border p-2 ${cell.evaluation.fits ? "bg-emerald-50 border-emerald-200" : "bg-red-50 border-red-200"} ${cell.current ? "ring-2 ring-slate-400" : ""}`}>
+                            <div className="font-medium">{cell.evaluation.fits ? "Fits" : "Exceeds"} · {cell.evaluation.marginGbps.toFixed(2)} Gbps</div>
+                            {needDsc.length > 0 && <div className="text-amber-700">DSC: {needDsc.join(", ")}</div>}
+                            {dropped.length > 0 && <div className="text-red-700">Dropped: {dropped.join(", ")}</div>}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </CardContent></Card>
+
+        {/* Max-refresh explorer */}
+        <Card className="mt-4 rounded-2xl shadow-sm"><CardContent className="p-5 grid gap-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold uppercase tracking-wide text-slate-500">Max Refresh Explorer</div>
+            <Button size="icon" variant="ghost" onClick={()=>setExplorerOpen(o=>!o)}><ChevronDown className={`w-4 h-4 transition-transform ${explorerOpen ? 'rotate-180' : ''}`}/></Button>
+          </div>
+          {explorerOpen && explorerLimit && (
+            <div className="grid gap-3 text-xs">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+                <div className="col-span-2">
+                  <label className="font-medium">Pixel format and DSC from</label>
+                  <Select value={String(timings.indexOf(explorerTemplate))} onValueChange={v=>setExplorerIndex(Number(v))}>
+                    <SelectTrigger className="mt-1 h-8"><SelectValue/></SelectTrigger>
+                    <SelectContent>{timings.map((t, i)=>(<SelectItem key={t.id} value={String(i)}>{t.label}</SelectItem>))}</SelectContent>
+                  </Select>
+                </div>
+                <div><label className="font-medium">H</label><Input className="mt-1 h-8" type="number" value={explorerH} onChange={e=>setExplorerSize(sz=>({ ...sz, h: Number(e.target.value)||undefined }))}/></div>
+                <div><label className="font-medium">V</label><Input className="mt-1 h-8" type="number" value={explorerV} onChange={e=>setExplorerSize(sz=>({ ...sz, v: Number(e.target.value)||undefined }))}/></div>
+                <div><label className="font-medium">From Hz</label><Input className="mt-1 h-8" type="number" value={explorerRange.minHz} onChange={e=>setExplorerRange(r=>({ ...r, minHz: Math.max(1, Number(e.target.value)||1) }))}/></div>
+                <div><label className="font-medium">To Hz</label><Input className="mt-1 h-8" type="number" value={explorerRange.maxHz} onChange={e=>setExplorerRange(r=>({ ...r, maxHz: Number(e.target.value)||r.minHz }))}/></div>
+                <div><label className="font-medium">Step (Hz)</label><Input className="mt-1 h-8" type="number" step="0.01" min={0.01} value={explorerRange.stepHz} onChange={e=>setExplorerRange(r=>({ ...r, stepHz: Number(e.target.value) > 0 ? Number(e.target.value) : DEFAULT_REFRESH_RANGE.stepHz }))}/></div>
+                <Button size="sm" variant="outline" onClick={()=>setExplorerSize({})}>Card resolution</Button>
+              </div>
+              <div className="flex flex-wrap gap-4">
+                <label className="inline-flex items-center gap-2"><Switch checked={explorerAdd} onCheckedChange={setExplorerAdd}/> Add as an extra stream (instead of replacing {explorerTemplate.label})</label>
+                <label className="inline-flex items-center gap-2"><Switch checked={explorerResolutions} onCheckedChange={setExplorerResolutions}/> Sweep common resolutions</label>
+              </div>
+              <div className={`rounded-xl border p-3 ${explorerLimit.maxHz !== undefined ? 'bg-emerald-50 border-emerald-200' : 'bg-red-50 border-red-200'}`}>
+                {explorerLimit.maxHz !== undefined ? (<>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-sm font-semibold">{explorerH}×{explorerV} up to {explorerLimit.maxHz} Hz ({explorerLimit.cvtKind})</div>
+                    <Button size="sm" variant="outline" disabled={explorerAdd && timings.length>=streamLimit} onClick={()=>applyExplorer(explorerH, explorerV, explorerLimit.maxHz)}>{explorerAdd ? "Add timing" : `Apply to ${explorerTemplate.label}`}</Button>
+                  </div>
+                  <div className="text-slate-600">{explorerLimit.pixelClockMHz?.toFixed(3)} MHz · {explorerLimit.gbps?.toFixed(2)} Gbps alongside {explorerAdd ? timings.length : timings.length-1} other stream{(explorerAdd ? timings.length : timings.length-1)===1 ? "" : "s"}</div>
+                  {explorerLimit.limitedBy ? <div className="text-slate-500">Next step limited by: {explorerLimit.limitedBy}</div> : <div className="text-slate-500">Fits across the whole range.</div>}
+                </>) : (
+                  <div className="text-red-700">Does not fit even at {explorerRange.minHz} Hz: {explorerLimit.limitedBy}</div>
+                )}
+              </div>
+              {explorerResolutions && (
+                <table className="w-full text-left">
+                  <thead><tr className="text-slate-500"><th className="font-medium">Resolution</th><th className="font-medium">Max refresh</th><th className="font-medium">Pixel clock</th><th className="font-medium">Stream</th><th/></tr></thead>
+                  <tbody>
+                    {explorerTable.map(r=>(
+                      <tr key={`${r.h}x${r.v}`} className="border-t">
+                        <td className="py-1">{r.h}×{r.v}</td>
+                        <td className={r.maxHz === undefined ? "text-red-600" : "font-medium"}>{r.maxHz !== undefined ? `${r.maxHz} Hz` : `< ${explorerRange.minHz} Hz`}</td>
+                        <td>{r.pixelClockMHz ? `${r.pixelClockMHz.toFixed(2)} MHz` : "—"}</td>
+                        <td>{r.gbps !== undefined ? `${r.gbps.toFixed(2)} Gbps` : "—"}</td>
+                        <td className="text-right">{r.maxHz !== undefined && <Button size="sm" variant="ghost" className="h-6" onClick={()=>setExplorerSize({ h: r.h, v: r.v })}>Explore</Button>}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </CardContent></Card>
+
+        {/* Compatibility matrix */}
+        <Card className="mt-4 rounded-2xl shadow-sm"><CardContent className="p-5 grid gap-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold uppercase tracking-wide text-slate-500">Compatibility Matrix</div>
+            <div className="flex items-center gap-2">
+              {matrix && matrix.modes.length > 0 && matrix.links.length > 0 && (<>
+                <Button size="sm" variant="outline" onClick={()=>downloadFile("dp_compatibility_matrix.csv", matrixToCsv(matrix), "text/csv")}><Download className="w-4 h-4 mr-1"/> CSV</Button>
+                <Button size="sm" variant="outline" onClick={()=>downloadFile("dp_compatibility_matrix.md", matrixToMarkdown(matrix), "text/markdown")}><Download className="w-4 h-4 mr-1"/> Markdown</Button>
+              </>)}
+              <Button size="icon" variant="ghost" onClick={()=>setMatrixOpen(o=>!o)}><ChevronDown className={`w-4 h-4 transition-transform ${matrixOpen ? 'rotate-180' : ''}`}/></Button>
+            </div>
+          </div>
+          {matrixOpen && matrix && (
+            <div className="grid gap-3 text-xs">
+              <div className="flex items-center gap-2">
+                <label className="font-medium">Pixel format and DSC from</label>
+                <Select value={String(timings.indexOf(matrixTemplate))} onValueChange={v=>setMatrixIndex(Number(v))}>
+                  <SelectTrigger className="h-8 w-56"><SelectValue/></SelectTrigger>
+                  <SelectContent>{timings.map((t, i)=>(<SelectItem key={t.id} value={String(i)}>{t.label}</SelectItem>))}</SelectContent>
+                </Select>
+              </div>
+              <div>
+                <div className="font-medium mb-1">Modes</div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {[...PREDEFINED_CHOICES, ...edidChoices].map(m=>(
+                    <label key={m.key} className="inline-flex items-center gap-2"><Switch checked={matrixModeKeys.includes(m.key)} onCheckedChange={v=>setMatrixModeKeys(keys=> toggle(keys, m.key, v))}/> {m.label}</label>
+                  ))}
+                </div>
+                {matrixImported.length > 0 && (
+                  <div className="mt-1 flex flex-wrap items-center gap-2 text-slate-600">
+                    Imported: {matrixImported.map(m=> m.label).join(", ")}
+                    <Button size="sm" variant="ghost" className="h-6" onClick={()=>setMatrixImported([])}><Trash2 className="w-3 h-3 mr-1"/> Clear</Button>
+                  </div>
+                )}
+                <label className="mt-2 inline-flex items-center">
+                  <input type="file" accept=".json,.txt,.csv" onChange={onImportModeList} className="hidden" id="import-mode-list"/>
+                  <Button size="sm" variant="outline" asChild>
+                    <span><label htmlFor="import-mode-list" className="cursor-pointer flex items-center"><Upload className="w-4 h-4 mr-1"/> Import mode list</label></span>
+                  </Button>
+                </label>
+              </div>
+              <div>
+                <div className="font-medium mb-1">Links</div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {DP_PRESETS.filter(p=> p.id!=="custom").map(p=>(
+                    <label key={p.id} className="inline-flex items-center gap-2"><Switch checked={matrixPresetIds.includes(p.id)} onCheckedChange={v=>setMatrixPresetIds(ids=> toggle(ids, p.id, v))}/> {p.label}</label>
+                  ))}
+                </div>
+                <div className="mt-1 flex flex-wrap gap-x-4">
+                  {LANE_OPTIONS.map(n=>(
+                    <label key={n} className="inline-flex items-center gap-2"><Switch checked={matrixLanes.includes(n)} onCheckedChange={v=>setMatrixLanes(ls=> toggle(ls, n, v).sort((a, b)=> a-b))}/> {n} lane{n > 1 ? "s" : ""}</label>
+                  ))}
+                </div>
+              </div>
+              {matrix.modes.length > 0 && matrix.links.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left border-separate border-spacing-1">
+                    <thead><tr className="text-slate-500"><th className="font-medium">Mode</th>{matrix.links.map(l=>(<th key={l.id} className="font-medium">{l.label}</th>))}</tr></thead>
+                    <tbody>
+                      {matrix.modes.map((mode, i)=>(
+                        <tr key={`${mode.label}_${i}`}>
+                          <td className="font-medium align-top whitespace-nowrap">{mode.label}</td>
+                          {matrix.cells[i].map((cell, j)=>(
+                            <td key={matrix.links[j].id} className="align-top rounded-lg border p-1.5 bg-white whitespace-nowrap">
+                              <div className={cell.uncompressed.fits ? "text-emerald-700" : "text-red-600"}>{cell.uncompressed.fits ? "Fits" : "Exceeds"} · {cell.uncompressed.requiredGbps.toFixed(2)} Gbps · {cell.uncompressed.marginGbps >= 0 ? "+" : ""}{cell.uncompressed.marginGbps.toFixed(2)}</div>
+                              <div className={cell.dsc.fits ? "text-emerald-700" : "text-red-600"}>DSC {cell.dsc.fits ? "fits" : "exceeds"} · {cell.dsc.requiredGbps.toFixed(2)} Gbps · {cell.dsc.marginGbps >= 0 ? "+" : ""}{cell.dsc.marginGbps.toFixed(2)}</div>
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : <div className="text-slate-500">Pick at least one mode and one link.</div>}
+            </div>
+          )}
+        </CardContent></Card>
+
+        {/* MST topology */}
+        <Card className="mt-4 rounded-2xl shadow-sm"><CardContent className="p-5 grid gap-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold uppercase tracking-wide text-slate-500">MST Topology</div>
+            {!topology && <Button size="sm" variant="outline" onClick={()=>setTopology({ nodes: [newNode("branch")] })}><Network className="w-4 h-4 mr-1"/> Add branch device</Button>}
+          </div>
+          {!topology && <div className="text-xs text-slate-500">Single link: every timing is carried by the DisplayPort link above.</div>}
+          {topologyEvaluation?.hops.map(hop=>{
+            const node = topology?.nodes.find(n=> n.id===hop.nodeId);
+            if(!node) return null;
+            const hopEval = hop.evaluation;
+            const link = node.link;
+            return (
+              <div key={node.id} className={`rounded-xl border p-3 grid gap-2 text-xs ${hopEval.fits ? 'bg-white' : 'bg-red-50 border-red-200'}`} style={{ marginLeft: hop.depth * 20 }}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input className="h-8 w-44" value={node.label} onChange={e=>updateNode(node.id,{label:e.target.value})}/>
+                  <Select value={node.kind} onValueChange={(v:any)=>updateNode(node.id,{kind:v})}>
+                    <SelectTrigger className="h-8 w-28"><SelectValue/></SelectTrigger>
+                    <SelectContent><SelectItem value="branch">Branch</SelectItem><SelectItem value="sink" disabled={topology.nodes.some(n=> n.parentId===node.id)}>Sink</SelectItem></SelectContent>
+                  </Select>
+                  {topologyEvaluation.bottleneckId===node.id && <span className="rounded-full bg-amber-100 px-2 py-0.5 font-medium text-amber-700">Bottleneck</span>}
+                  <div className="ml-auto flex items-center gap-1">
+                    {node.kind==="branch" && (<>
+                      <Button size="sm" variant="ghost" onClick={()=>addNode(node.id,"sink")}><Plus className="w-3 h-3 mr-1"/> Sink</Button>
+                      <Button size="sm" variant="ghost" onClick={()=>addNode(node.id,"branch")}><Plus className="w-3 h-3 mr-1"/> Branch</Button>
+                    </>)}
+                    <Button size="icon" variant="ghost" onClick={()=>removeNode(node.id)}><Trash2 className="w-4 h-4"/></Button>
+                  </div>
+                </div>
+                {link ? (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <Select value={node.presetId ?? "custom"} onValueChange={(id)=>{ const p = LINK_PRESETS.find(x=> x.id===id); if(p) updateNode(node.id,{ presetId: id, link: { ...link, rate: p.rate, lanes: p.lanes, coding: p.coding } }); }}>
+                      <SelectTrigger className="h-8"><SelectValue/></SelectTrigger>
+                      <SelectContent>{LINK_PRESETS.map(p=>(<SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>))}</SelectContent>
+                    </Select>
+                    <Select value={String(link.lanes)} onValueChange={(v)=>updateNode(node.id,{ link: { ...link, lanes: Number(v) } })}>
+                      <SelectTrigger className="h-8"><SelectValue/></SelectTrigger>
+                      <SelectContent>{laneOptions(link.coding).map(o=>(<SelectItem key={o} value={String(o)}>{o} Lane{o > 1 ? "s" : ""}</SelectItem>))}</SelectContent>
+                    </Select>
+                    <Input className="h-8" type="number" step="0.01" value={link.rate} onChange={e=>updateNode(node.id,{ presetId: "custom", link: { ...link, rate: Number(e.target.value)||0 } })}/>
+                    <Select value={link.coding} onValueChange={(v:any)=>{ const options = laneOptions(v); updateNode(node.id,{ presetId: "custom", link: { ...link, coding: v, lanes: options.includes(link.lanes) ? link.lanes : options[options.length-1] } }); }}>
+                      <SelectTrigger className="h-8"><SelectValue/></SelectTrigger>
+                      <SelectContent>{CODINGS.map(c=>(<SelectItem key={c.id} value={c.id}>{c.label}</SelectItem>))}</SelectContent>
+                    </Select>
+                  </div>
+                ) : <div className="text-slate-500">Upstream: source link ({rate.toFixed(2)} Gbps × {lanes}, {codingLabel(coding)})</div>}
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-slate-600">
+                  <span>{hop.timingIndices.length} stream{hop.timingIndices.length===1 ? "" : "s"}</span>
+                  <span>{hopEval.totalGbps.toFixed(2)} / {hopEval.link.payloadGbps.toFixed(2)} Gbps</span>
+                  <span>{hopEval.marginPct.toFixed(1)}% margin</span>
+                  {hopEval.link.mst && <span>{hopEval.mst.usedSlots}/{MST_PAYLOAD_SLOTS} slots{hopEval.mst.fits ? "" : ` (${hopEval.mst.streams.filter(st=> !st.fits).length} not allocated)`}</span>}
+                  <span className={`font-medium ${hopEval.fits ? 'text-emerald-700' : 'text-red-600'}`}>{hopEval.fits ? "FITS" : "EXCEEDS"}</span>
+                </div>
+              </div>
+            );
+          })}
+          {topologyEvaluation && topologyEvaluation.orphanTimings.length > 0 && (
+            <div className="text-xs text-amber-700">{topologyEvaluation.orphanTimings.length} timing(s) point at a removed device and are counted on the first hop.</div>
+          )}
+        </CardContent></Card>
+
+        {/* Capability profiles */}
+        <Card className="mt-4 rounded-2xl shadow-sm"><CardContent className="p-5 grid gap-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold uppercase tracking-wide text-slate-500">Capability Profiles</div>
+            <Button size="icon" variant="ghost" onClick={()=>setProfilesOpen(o=>!o)}><ChevronDown className={`w-4 h-4 transition-transform ${profilesOpen ? 'rotate-180' : ''}`}/></Button>
+          </div>
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div>
+              <label className="font-medium">Source (GPU)</label>
+              <Select value={sourceProfileId ?? "none"} onValueChange={v=>setSourceProfileId(v==="none" ? undefined : v)}>
+                <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
+                <SelectContent><SelectItem value="none">No source limits</SelectItem>{sourceProfiles.map(p=>(<SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>))}</SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="font-medium">Sink (monitor)</label>
+              <Select value={sinkProfileId ?? "none"} onValueChange={v=>setSinkProfileId(v==="none" ? undefined : v)}>
+                <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
+                <SelectContent><SelectItem value="none">No sink limits</SelectItem>{sinkProfiles.map(p=>(<SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>))}</SelectContent>
+              </Select>
+            </div>
+          </div>
+          {profilesOpen && (
+            <div className="grid gap-2 text-xs">
+              {profiles.map(p=>(
+                <div key={p.id} className="rounded-xl border bg-white p-3 grid gap-2">
+                  <div className="flex items-center gap-2">
+                    <Input className="h-8 flex-1" value={p.label} onChange={e=>updateProfile(p.id,{label:e.target.value})}/>
+                    <Select value={p.role} onValueChange={(v:any)=>updateProfile(p.id,{ role: v, ...(v==="sink" ? { maxStreams: undefined, maxTotalPixelClockMHz: undefined } : {}) })}>
+                      <SelectTrigger className="h-8 w-28"><SelectValue/></SelectTrigger>
+                      <SelectContent><SelectItem value="source">Source</SelectItem><SelectItem value="sink">Sink</SelectItem></SelectContent>
+                    </Select>
+                    <Button size="icon" variant="ghost" onClick={()=>removeProfile(p.id)}><Trash2 className="w-4 h-4"/></Button>
+                  </div>
+                  <div className="grid grid-cols-3 md:grid-cols-6 gap-2 items-end">
+                    <div><label>Max rate (Gbps/lane)</label><Input className="h-8" type="number" step="0.01" placeholder="—" value={p.maxRate ?? ""} onChange={e=>updateProfile(p.id,{maxRate:profileLimit(e.target.value)})}/></div>
+                    <div><label>Max lanes</label><Input className="h-8" type="number" step="1" placeholder="—" value={p.maxLanes ?? ""} onChange={e=>updateProfile(p.id,{maxLanes:profileLimit(e.target.value)})}/></div>
+                    <div>
+                      <label>DSC</label>
+                      <Select value={p.dscVersion ?? "none"} onValueChange={(v:any)=>updateProfile(p.id,{dscVersion: v==="none" ? undefined : v})}>
+                        <SelectTrigger className="h-8"><SelectValue/></SelectTrigger>
+                        <SelectContent><SelectItem value="none">None</SelectItem>{DSC_VERSIONS.map(v=>(<SelectItem key={v} value={v}>DSC {v}</SelectItem>))}</SelectContent>
+                      </Select>
+                    </div>
+                    <div><label>Max pixel clock (MHz)</label><Input className="h-8" type="number" step="1" placeholder="—" value={p.maxPixelClockMHz ?? ""} onChange={e=>updateProfile(p.id,{maxPixelClockMHz:profileLimit(e.target.value)})}/></div>
+                    {p.role==="source" && <div><label>Max streams</label><Input className="h-8" type="number" step="1" placeholder="—" value={p.maxStreams ?? ""} onChange={e=>updateProfile(p.id,{maxStreams:profileLimit(e.target.value)})}/></div>}
+                    {p.role==="source" && <div><label>Max total clock (MHz)</label><Input className="h-8" type="number" step="1" placeholder="—" value={p.maxTotalPixelClockMHz ?? ""} onChange={e=>updateProfile(p.id,{maxTotalPixelClockMHz:profileLimit(e.target.value)})}/></div>}
+                  </div>
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={()=>addProfile("source")}><Plus className="w-4 h-4 mr-1"/> Source profile</Button>
+                <Button size="sm" variant="outline" onClick={()=>addProfile("sink")}><Plus className="w-4 h-4 mr-1"/> Sink profile</Button>
+                <label className="inline-flex items-center">
+                  <input type="file" accept="application/json" onChange={onImportProfiles} className="hidden" id="import-profiles"/>
+                  <Button size="sm" variant="outline" asChild>
+                    <span><label htmlFor="import-profiles" className="cursor-pointer flex items-center"><Upload className="w-4 h-4 mr-1"/> Import profiles</label></span>
+                  </Button>
+                </label>
+              </div>
+            </div>
+          )}
+        </CardContent></Card>
+
+        {/* EDID import */}
+        <Card className="mt-4 rounded-2xl shadow-sm"><CardContent className="p-5 grid gap-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold uppercase tracking-wide text-slate-500">EDID Import</div>
+            <label className="inline-flex items-center">
+              <input type="file" accept=".bin,.edid,.hex,.txt" onChange={onImportEdid} className="hidden" id="import-edid"/>
+              <Button variant="outline" size="sm" asChild>
+                <span><label htmlFor="import-edid" className="cursor-pointer flex items-center"><Upload className="w-4 h-4 mr-1"/> Load EDID file</label></span>
+              </Button>
+            </label>
+          </div>
+          <textarea
+            className="min-h-[72px] w-full rounded-lg border border-input bg-background px-3 py-2 font-mono text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            placeholder="Paste an EDID or DisplayID hex dump from edid-decode or xrandr --verbose"
+            value={edidHex}
+            onChange={e=>setEdidHex(e.target.value)}
+          />
+          <div className="flex items-center justify-between gap-3 text-xs">
+            <div className="text-slate-600">
+              {edidError
+                ? <span className="text-red-600">{edidError}</span>
+                : edid
+                  ? <span>{edid.monitorName || (edid.manufacturer ? `${edid.manufacturer} ${edid.productCode.toString(16).padStart(4, "0")}` : "Display")} · {edid.manufacturer ? `EDID ${edid.version}` : edid.version}{edid.manufacturer && edid.displayIdVersion ? ` + DisplayID ${edid.displayIdVersion}` : ""} · {edid.modes.length} timing{edid.modes.length === 1 ? "" : "s"} available in each card's mode list</span>
+                  : <span>DTDs, standard timings, CTA-861 DTDs and DisplayID timings become selectable modes.</span>}
+              {edid?.tiles.map((tile, i) => (
+                <div key={`tile-${i}`}>Tiled display: {tile.hTiles}×{tile.vTiles} tiles of {tile.tileWidth}×{tile.tileHeight} ({tile.hTiles * tile.tileWidth}×{tile.vTiles * tile.tileHeight} total), this tile at ({tile.hLocation}, {tile.vLocation}); each tile is a separate stream.</div>
+              ))}
+              {edid?.warnings.map((w, i) => (<div key={i} className="text-amber-600">{w}</div>))}
+            </div>
+            <Button size="sm" variant="secondary" onClick={()=>loadEdid(edidHex)} disabled={!edidHex.trim()}>Parse hex</Button>
+          </div>
+        </CardContent></Card>
+
+        {/* EDID builder */}
+        <Card className="mt-4 rounded-2xl shadow-sm"><CardContent className="p-5 grid gap-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold uppercase tracking-wide text-slate-500">EDID Builder</div>
+            {builtEdid && (
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant="outline" onClick={()=>downloadFile("dp_bandwidth_edid.bin", new Uint8Array(builtEdid.bytes), "application/octet-stream")}><Download className="w-4 h-4 mr-1"/> .bin</Button>
+                <Button size="sm" variant="outline" onClick={()=>downloadFile("dp_bandwidth_edid.hex", edidToHex(builtEdid.bytes), "text/plain")}><Download className="w-4 h-4 mr-1"/> Hex</Button>
+              </div>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            <label className="font-medium">Monitor name</label>
+            <Input className="h-8 w-40" maxLength={13} value={edidBuildName} onChange={e=>setEdidBuildName(e.target.value)}/>
+            <label className="font-medium">Manufacturer ID</label>
+            <Input className="h-8 w-20" maxLength={3} value={edidBuildManufacturer} onChange={e=>setEdidBuildManufacturer(e.target.value.toUpperCase())}/>
+          </div>
+          {builtEdid && (
+            <div className="grid gap-2 text-xs">
+              <div className="text-slate-600">
+                EDID 1.4, {builtEdid.bytes.length} bytes · {timings.map((t, i)=> `${t.label}: ${{ base: "base DTD", cta: "CTA-861 DTD", displayid: "DisplayID Type VII", omitted: "left out" }[builtEdid.placements[i]]}${i===0 ? " (preferred)" : ""}`).join(" · ")}
+              </div>
+              {builtEdid.warnings.map((w, i)=>(<div key={i} className="text-amber-600">{w}</div>))}
+              <pre className="overflow-x-auto rounded-lg border bg-slate-50 p-2 font-mono text-[11px] leading-relaxed">{edidToHex(builtEdid.bytes)}</pre>
+            </div>
+          )}
+        </CardContent></Card>
         <div className="my-8 border-t border-slate-200" />
 
         {/* Timings (stacked) */}
         <div className="mt-6 grid grid-cols-1 gap-4">
-          {timings.map((t)=> {
-            const activeH = Number(t.h) || 0;
-            const activeV = Number(t.v) || 0;
-            const refreshValue = Number(t.hz) || 0;
-            const frontPorchH = Number(t.hFront) || 0;
-            const syncWidthH = Number(t.hSync) || 0;
-            const backPorchH = Number(t.hBack) || 0;
-            const frontPorchV = Number(t.vFront) || 0;
-            const syncWidthV = Number(t.vSync) || 0;
-            const backPorchV = Number(t.vBack) || 0;
-            const pixelClockRaw = typeof t.pixelClock === "number" ? t.pixelClock : undefined;
-            const derivedPixelClock = pixelClockRaw ?? (activeH > 0 && activeV > 0 && refreshValue > 0
-              ? pixelClockMHzFromTotals(
-                  activeH,
-                  activeV,
-                  refreshValue,
-                  frontPorchH,
-                  syncWidthH,
-                  backPorchH,
-                  frontPorchV,
-                  syncWidthV,
-                  backPorchV
-                )
-              : undefined);
-            const normalizedPixelClock = typeof derivedPixelClock === "number" && Number.isFinite(derivedPixelClock) && derivedPixelClock > 0
-              ? derivedPixelClock
-              : undefined;
+          {timings.map((t, index)=> {
+            const dscErrors = parsed[index]?.dscErrors ?? [];
+            const formatErrors = parsed[index]?.formatErrors ?? [];
+            const sdp = parsed[index]?.sdp;
+            const tmdsClock = parsed[index]?.tmdsClock;
+            const transportErrors = parsed[index]?.transportErrors ?? [];
+            const audio = t.audio;
+            const updateAudio = (patch: Partial<AudioConfig>)=> updateTiming(t.id,{ audio: { channels: 2, sampleRateHz: 48000, sampleSize: 24, ...audio, ...patch } });
+            const dsc = resolveTiming(t).dsc;
+            const normalizedPixelClock = effectivePixelClock(t);
             const pixelClockText = normalizedPixelClock ? `${normalizedPixelClock.toFixed(3)} MHz` : "—";
+            const timingExport = ()=> formatModeline(modelineFormats[t.id] ?? "x11", modeTiming(t, t.cvtKind==="exact" ? t.modeSource : undefined), xrandrOutput);
             return (
               <motion.div key={t.id} initial={{opacity:0,y:6}} animate={{opacity:1,y:0}}>
               <Card className="rounded-2xl shadow-sm"><CardContent className="p-5 grid gap-3">
                 <div className="flex items-center justify-between">
-                  <div className="text-sm font-medium">{t.label}</div>
-                  <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-2 text-sm font-medium"><span className="inline-block w-2.5 h-2.5 rounded-full" style={{ background: timingColor(index) }}/>{t.label}</div>
+                  <div className="flex items-center gap-1">
                     <Switch checked={t.useDsc} onCheckedChange={v=>updateTiming(t.id,{useDsc:v})}/>
                     <span className="text-xs text-slate-600">Use DSC value</span>
                     <Button size="icon" variant="ghost" onClick={()=>updateTiming(t.id,{calcOpen:!t.calcOpen})}><ChevronDown className={`w-4 h-4 transition-transform ${t.calcOpen? 'rotate-180':''}`}/></Button>
+                    <Button size="icon" variant="ghost" title="Move up" onClick={()=>moveTiming(index,-1)} disabled={index===0}><ArrowUp className="w-4 h-4"/></Button>
+                    <Button size="icon" variant="ghost" title="Move down" onClick={()=>moveTiming(index,1)} disabled={index===timings.length-1}><ArrowDown className="w-4 h-4"/></Button>
+                    <Button size="icon" variant="ghost" title="Duplicate" onClick={()=>duplicateTiming(t.id)} disabled={timings.length>=streamLimit}><Copy className="w-4 h-4"/></Button>
+                    <Button size="icon" variant="ghost" title={t.collapsed ? "Expand" : "Collapse"} onClick={()=>updateTiming(t.id,{collapsed:!t.collapsed})}>{t.collapsed ? <ChevronsUpDown className="w-4 h-4"/> : <ChevronsDownUp className="w-4 h-4"/>}</Button>
                     <Button size="icon" variant="ghost" onClick={()=>removeTiming(t.id)} disabled={timings.length<=1}><Trash2 className="w-4 h-4"/></Button>
                   </div>
                 </div>
 
+                {!t.collapsed && (<>
+                {topology && (
+                  <div className="flex items-center gap-2 text-xs">
+                    <label className="font-medium">Sink port</label>
+                    <Select value={t.sinkId && topology.nodes.some(n=> n.id===t.sinkId) ? t.sinkId : topology.nodes[0].id} onValueChange={(v)=>updateTiming(t.id,{sinkId:v})}>
+                      <SelectTrigger className="h-8 w-56"><SelectValue/></SelectTrigger>
+                      <SelectContent>{topology.nodes.map(n=>(<SelectItem key={n.id} value={n.id}>{n.label}</SelectItem>))}</SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="flex items-center gap-2 text-xs">
+                  <label className="font-medium">Sink profile</label>
+                  <Select value={t.sinkProfileId && sinkProfiles.some(p=> p.id===t.sinkProfileId) ? t.sinkProfileId : "link"} onValueChange={(v)=>updateTiming(t.id,{sinkProfileId: v==="link" ? undefined : v})}>
+                    <SelectTrigger className="h-8 w-56"><SelectValue/></SelectTrigger>
+                    <SelectContent><SelectItem value="link">Same as link sink</SelectItem>{sinkProfiles.map(p=>(<SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>))}</SelectContent>
+                  </Select>
+                </div>
+
                 {/* Modes-first row */}
                 <div className="grid md:grid-cols-2 gap-3">
                   <div>
                     <label className="text-xs font-medium">Predefined mode</label>
-                    <Select value={String(t.modeIndex??0)} onValueChange={(v)=> onChooseMode(t, Number(v))}>
+                    <Input className="mt-1 h-8 text-xs" placeholder="Search VIC / DMT (e.g. vic 97, 2160 59.94)" value={modeFilters[t.id] ?? ""} onChange={e=>setModeFilters(f=>({...f, [t.id]: e.target.value}))} />
+                    <Select value={modeKeyOf(t)} onValueChange={(v)=> onChooseMode(t, v)}>
                       <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
-                      <SelectContent>{PREDEFINED_MODES.map((m,i)=>(<SelectItem key={i} value={String(i)}>{m.label}</SelectItem>))}</SelectContent>
+                      <SelectContent>
+                        {PREDEFINED_CHOICES.map(m=>(<SelectItem key={m.key} value={m.key}>{m.label}</SelectItem>))}
+                        {LIBRARY_GROUPS.map(g=>({ name: g.name, choices: libraryChoices(t, g.choices) })).filter(g=> g.choices.length > 0).map(g=>(
+                          <SelectGroup key={g.name}>
+                            <SelectLabel>{g.name}</SelectLabel>
+                            {g.choices.map(m=>(<SelectItem key={m.key} value={m.key}>{m.label}</SelectItem>))}
+                          </SelectGroup>
+                        ))}
+                        {edidChoices.length > 0 && (
+                          <SelectGroup>
+                            <SelectLabel>{edid?.manufacturer ? "EDID" : "DisplayID"}{edid?.monitorName ? ` – ${edid.monitorName}` : ""}</SelectLabel>
+                            {edidChoices.map(m=>(<SelectItem key={m.key} value={m.key}>{m.label}</SelectItem>))}
+                          </SelectGroup>
+                        )}
+                      </SelectContent>
                     </Select>
                     <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-slate-600">
                       <div><div className="font-medium">Pixel clock</div><div>{pixelClockText}</div></div>
                       <div><div className="font-medium">H blank</div><div>{(t.hFront??0)+(t.hSync??0)+(t.hBack??0)} px</div></div>
                       <div><div className="font-medium">V blank</div><div>{(t.vFront??0)+(t.vSync??0)+(t.vBack??0)} lines</div></div>
-                      <div><div className="font-medium">Gen</div><div>{t.cvtKind||'cvt_rb2'}</div></div>
+                      <div><div className="font-medium">Gen</div><div>{t.modeSource ?? t.cvtId ?? (t.cvtKind||'cvt_rb2')}</div></div>
                     </div>
                   </div>
                   <div className="grid grid-cols-2 gap-3">
@@ -754,14 +1126,16 @@ export default function App(){
                         <Select value={t.cvtKind||"cvt_rb2"} onValueChange={(v:any)=>{
                           const next: CvtKind = v as CvtKind; updateTiming(t.id,{cvtKind: next});
                           // If a mode is already chosen, reapply its H/V/Hz with new template blanking
-                          if(typeof t.modeIndex === 'number') onChooseMode({...t, cvtKind: next}, t.modeIndex);
+                          onChooseMode({...t, cvtKind: next}, modeKeyOf(t), next);
                         }}>
                           <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
                           <SelectContent>
                             <SelectItem value="manual">Manual totals</SelectItem>
+                            <SelectItem value="exact">Exact (EDID / VIC / DMT)</SelectItem>
                             <SelectItem value="cvt">CVT</SelectItem>
                             <SelectItem value="cvt_rb">CVT-RB</SelectItem>
                             <SelectItem value="cvt_rb2">CVT-RB2</SelectItem>
+                            <SelectItem value="cvt_rb3">CVT-RB3</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -776,12 +1150,11 @@ export default function App(){
                           <Select value={String(t.bpc ?? DEFAULT_BPC)} onValueChange={(value)=>{
                             const nextBpc = Number(value) || DEFAULT_BPC;
                             const formatKey = (t.colorFormat || DEFAULT_COLOR_FORMAT) as ColorFormatId;
-                            const formatInfo = COLOR_FORMATS[formatKey] ?? COLOR_FORMATS[DEFAULT_COLOR_FORMAT];
-                            updateTiming(t.id,{ bpc: nextBpc, bpp: nextBpc * formatInfo.factor });
+                            updateTiming(t.id,{ bpc: nextBpc, bpp: bitsPerPixel(nextBpc, formatKey) });
                           }}>
                             <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
                             <SelectContent>
-                              {[5,6,8,10,12,16].map(option=> (<SelectItem key={option} value={String(option)}>{option}-bit</SelectItem>))}
+                              {BPC_OPTIONS.map(option=> (<SelectItem key={option} value={String(option)} disabled={!isPixelFormatSupported(option, (t.colorFormat || DEFAULT_COLOR_FORMAT) as ColorFormatId, t.useDsc)}>{option}-bit</SelectItem>))}
                             </SelectContent>
                           </Select>
                         </div>
@@ -790,29 +1163,120 @@ export default function App(){
                           <Select value={(t.colorFormat || DEFAULT_COLOR_FORMAT) as string} onValueChange={(value)=>{
                             const formatKey = (value as ColorFormatId);
                             const bpc = Number(t.bpc) || DEFAULT_BPC;
-                            const formatInfo = COLOR_FORMATS[formatKey] ?? COLOR_FORMATS[DEFAULT_COLOR_FORMAT];
-                            updateTiming(t.id,{ colorFormat: formatKey, bpp: bpc * formatInfo.factor });
+                            updateTiming(t.id,{ colorFormat: formatKey, bpp: bitsPerPixel(bpc, formatKey) });
                           }}>
                             <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
                             <SelectContent>
-                              {Object.entries(COLOR_FORMATS).map(([key, info]) => (<SelectItem key={key} value={key}>{info.label}</SelectItem>))}
+                              {Object.entries(COLOR_FORMATS).map(([key, info]) => (<SelectItem key={key} value={key} disabled={!isPixelFormatSupported(Number(t.bpc) || DEFAULT_BPC, key as ColorFormatId, t.useDsc)}>{info.label}</SelectItem>))}
                             </SelectContent>
                           </Select>
                         </div>
                         <div>
-                          <label className="font-medium">DSC ratio</label>
-                          <Select value={String(t.dscRatio??3)} onValueChange={(v)=> updateTiming(t.id,{ dscRatio: Number(v) })}>
-                            <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value={String(3.0)}>3.0:1</SelectItem>
-                              <SelectItem value={String(2.4)}>2.4:1</SelectItem>
-                              <SelectItem value={String(2.0)}>2.0:1</SelectItem>
-                            </SelectContent>
-                          </Select>
+                          <label className="font-medium">DSC target bpp</label>
+                          <Input className="mt-1" type="number" step={0.0625} min={dsc.minBpp} max={dsc.maxBpp} value={t.dscBpp ?? dsc.targetBpp} onChange={e=>updateAndResolve(t,{ dscBpp: Number(e.target.value)||undefined })}/>
                         </div>
                       </div>
                     </div>
 
+                    {t.cvtKind!=="manual" && t.cvtKind!=="exact" && (
+                      <div className="flex flex-wrap items-end gap-4">
+                        <label className="inline-flex items-center gap-2"><Switch checked={Boolean(t.interlaced)} onCheckedChange={v=>updateAndResolve(t,{interlaced:v})}/> Interlaced{t.interlaced ? ` (${((Number(t.hz) || 0) * 2).toFixed(2)} fields/s)` : ""}</label>
+                        <label className="inline-flex items-center gap-2"><Switch checked={Boolean(t.margins)} onCheckedChange={v=>updateAndResolve(t,{margins:v})}/> Margins (1.8%)</label>
+                        <label className="inline-flex items-center gap-2"><Switch checked={Boolean(t.videoOptimized)} disabled={!supportsVideoOptimized(t.cvtKind||"cvt_rb2")} onCheckedChange={v=>updateAndResolve(t,{videoOptimized:v})}/> Video-optimized (1000/1001)</label>
+                        {t.cvtKind==="cvt_rb3" && (<>
+                          <div>
+                            <label className="font-medium">Extra H blank</label>
+                            <Select value={String(t.extraHBlank??0)} onValueChange={v=>updateAndResolve(t,{extraHBlank:Number(v)})}>
+                              <SelectTrigger className="mt-1 w-28"><SelectValue/></SelectTrigger>
+                              <SelectContent>
+                                {CVT_RB3_EXTRA_HBLANK_OPTIONS.map(option=>(<SelectItem key={option} value={String(option)}>+{option} px</SelectItem>))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <label className="font-medium">Extra V blank (µs)</label>
+                            <Input className="mt-1 w-28" type="number" min={0} step={10} value={t.extraVBlankUs??0} onChange={e=>updateAndResolve(t,{extraVBlankUs:Number(e.target.value)||0})}/>
+                          </div>
+                        </>)}
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                      <div>
+                        <label className="font-medium">DSC slices / line</label>
+                        <Select value={String(t.dscSlices ?? "auto")} onValueChange={v=>updateAndResolve(t,{ dscSlices: v==="auto" ? undefined : Number(v) })}>
+                          <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Auto ({dsc.sliceCount})</SelectItem>
+                            {DSC_SLICE_COUNTS.map(n=>(<SelectItem key={n} value={String(n)}>{n}</SelectItem>))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <label className="font-medium">Line buffer depth</label>
+                        <Select value={String(t.dscLineBufferDepth ?? "auto")} onValueChange={v=>updateAndResolve(t,{ dscLineBufferDepth: v==="auto" ? undefined : Number(v) })}>
+                          <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Auto ({dsc.lineBufferDepth}-bit)</SelectItem>
+                            {DSC_LINE_BUFFER_DEPTHS.map(n=>(<SelectItem key={n} value={String(n)}>{n}-bit</SelectItem>))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <label className="font-medium">Sink slice throughput</label>
+                        <Select value={String(dsc.sliceThroughputMps)} onValueChange={v=>updateAndResolve(t,{ dscSliceThroughput: Number(v) })}>
+                          <SelectTrigger className="mt-1"><SelectValue/></SelectTrigger>
+                          <SelectContent>{DSC_SLICE_THROUGHPUTS.map(n=>(<SelectItem key={n} value={String(n)}>{n} MP/s</SelectItem>))}</SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <label className="font-medium">Max slice width (px)</label>
+                        <Input className="mt-1" type="number" value={t.dscMaxSliceWidth ?? 2560} onChange={e=>updateAndResolve(t,{ dscMaxSliceWidth: Number(e.target.value)||undefined })}/>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-end gap-4">
+                      <div>
+                        <label className="font-medium">Audio</label>
+                        <Select value={String(audio?.channels ?? 0)} onValueChange={v=> Number(v) ? updateAudio({ channels: Number(v) }) : updateTiming(t.id,{ audio: undefined })}>
+                          <SelectTrigger className="mt-1 w-28"><SelectValue/></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="0">Off</SelectItem>
+                            {AUDIO_CHANNEL_OPTIONS.map(n=>(<SelectItem key={n} value={String(n)}>{n} ch</SelectItem>))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {audio && (<>
+                        <div>
+                          <label className="font-medium">Sample rate</label>
+                          <Select value={String(audio.sampleRateHz)} onValueChange={v=>updateAudio({ sampleRateHz: Number(v) })}>
+                            <SelectTrigger className="mt-1 w-28"><SelectValue/></SelectTrigger>
+                            <SelectContent>{AUDIO_SAMPLE_RATES.map(n=>(<SelectItem key={n} value={String(n)}>{n/1000} kHz</SelectItem>))}</SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <label className="font-medium">Sample size</label>
+                          <Select value={String(audio.sampleSize)} onValueChange={v=>updateAudio({ sampleSize: Number(v) })}>
+                            <SelectTrigger className="mt-1 w-24"><SelectValue/></SelectTrigger>
+                            <SelectContent>{AUDIO_SAMPLE_SIZES.map(n=>(<SelectItem key={n} value={String(n)}>{n}-bit</SelectItem>))}</SelectContent>
+                          </Select>
+                        </div>
+                        <label className="inline-flex items-center gap-2"><Switch checked={Boolean(audio.compressed)} onCheckedChange={v=>updateAudio({ compressed: v })}/> Compressed (IEC 61937)</label>
+                      </>)}
+                      {METADATA_SDPS.map(({ id, label })=>(
+                        <label key={id} className="inline-flex items-center gap-2"><Switch checked={Boolean(t.metadataSdps?.includes(id))} onCheckedChange={v=>updateTiming(t.id,{ metadataSdps: v ? [...(t.metadataSdps ?? []), id] : (t.metadataSdps ?? []).filter(x=>x!==id) })}/> {label}</label>
+                      ))}
+                    </div>
+                    {sdp && (
+                      <div className="text-slate-500">SDPs: audio {sdp.audioSymbolsPerLine} of {Math.floor(sdp.hBlankSymbols)} H-blank symbols per lane per line ({sdp.samplesPerLine} sample periods), per-frame SDPs {sdp.metadataSymbols} of {Math.floor(sdp.vBlankSymbols)} V-blank symbols</div>
+                    )}
+                    <div className="flex flex-wrap items-center gap-4">
+                      <span className="font-medium">Solver keeps</span>
+                      {([["dsc", t.useDsc ? "DSC setting" : "Uncompressed"], ["bpc", "bpc"], ["colorFormat", "Color format"], ["cvtKind", "Blanking"]] as Array<[keyof SolverLocks, string]>).map(([key, name])=>(
+                        <label key={key} className="inline-flex items-center gap-2"><Switch checked={Boolean(t.solverLocks?.[key])} onCheckedChange={v=>updateTiming(t.id,{ solverLocks: { ...t.solverLocks, [key]: v } })}/> {name}</label>
+                      ))}
+                    </div>
+                    <div className="text-slate-500">DSC: {dsc.sliceCount} × {dsc.sliceWidth} px slices, {dsc.requiredSliceRateMps.toFixed(1)} MP/s per slice, {dsc.targetBpp} bpp ({dsc.ratio.toFixed(2)}:1), {dsc.sampling === "444" ? "4:4:4" : `native 4:${dsc.sampling[1]}:${dsc.sampling[2]}, PPS ${dsc.ppsBpp} bpp`}, range {dsc.minBpp}–{dsc.maxBpp} bpp</div>
+
                     <div className="grid md:grid-cols-3 gap-2">
                       <div className="grid grid-cols-3 gap-2">
                         <div><label>H fp</label><Input className="mt-1" type="number" value={t.hFront??8} onChange={e=>updateTiming(t.id,{hFront:Number(e.target.value)||0})}/></div>
@@ -828,10 +1292,49 @@ export default function App(){
                         <Button size="sm" variant="secondary" onClick={()=>computeAndFill(t.id)}>Recompute</Button>
                       </div>
                     </div>
+
+                    <div className="grid gap-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">Export timing</span>
+                        <Select value={modelineFormats[t.id] ?? "x11"} onValueChange={(v:any)=>setModelineFormats(f=>({ ...f, [t.id]: v }))}>
+                          <SelectTrigger className="h-8 w-64"><SelectValue/></SelectTrigger>
+                          <SelectContent>{MODELINE_FORMATS.map(f=>(<SelectItem key={f.id} value={f.id}>{f.label}</SelectItem>))}</SelectContent>
+                        </Select>
+                        {(modelineFormats[t.id] ?? "x11")==="xrandr" && <Input className="h-8 w-28" value={xrandrOutput} placeholder="Output" onChange={e=>setXrandrOutput(e.target.value)}/>}
+                        <Button size="sm" variant="ghost" onClick={()=>navigator.clipboard?.writeText(timingExport())}><Copy className="w-4 h-4 mr-1"/> Copy</Button>
+                      </div>
+                      <pre className="overflow-x-auto rounded-lg border bg-slate-50 p-2 font-mono text-[11px] leading-relaxed">{timingExport()}</pre>
+                    </div>
                   </div>
                 )}
 
-                <div className="text-xs text-slate-600">Using: <span className="font-medium">{t.useDsc ? (Number(t.peakBwDsc)||0).toFixed(2) : (Number(t.peakBw)||0).toFixed(2)} Gbps</span></div>
+                {t.useDsc && dscErrors.length > 0 && (
+                  <div className="rounded-lg border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+                    <div className="font-medium">Invalid DSC configuration</div>
+                    {dscErrors.map(err=>(<div key={err}>{err}</div>))}
+                  </div>
+                )}
+                {sdp && sdp.status !== "ok" && (
+                  <div className={`rounded-lg border p-2 text-xs ${sdp.status === "fail" ? "border-red-200 bg-red-50 text-red-700" : "border-amber-200 bg-amber-50 text-amber-800"}`}>
+                    <div className="font-medium">{sdp.status === "fail" ? "Audio / metadata SDPs do not fit" : "Audio SDPs spill into active video"}</div>
+                    {sdp.warnings.map(w=>(<div key={w}>{w}</div>))}
+                  </div>
+                )}
+                {transportErrors.length > 0 && (
+                  <div className="rounded-lg border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+                    <div className="font-medium">Not supported on this HDMI link</div>
+                    {transportErrors.map(err=>(<div key={err}>{err}</div>))}
+                  </div>
+                )}
+                {!t.useDsc && formatErrors.length > 0 && (
+                  <div className="rounded-lg border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+                    <div className="font-medium">Unsupported pixel format</div>
+                    {formatErrors.map(err=>(<div key={err}>{err}</div>))}
+                  </div>
+                )}
+                </>)}
+
+                <div className="text-xs text-slate-600">Using: <span className="font-medium">{(parsed[index]?.selected ?? 0).toFixed(2)} Gbps</span>{tmdsClock ? ` · TMDS clock ${tmdsClock.toFixed(2)} MHz${tmdsClock > TMDS_SCRAMBLING_THRESHOLD_MHZ ? " (scrambled)" : ""}` : ""}</div>
               </CardContent></Card>
             </motion.div>
           );
@@ -839,7 +1342,7 @@ export default function App(){
         </div>
 
         <div className="mt-4 flex flex-wrap gap-2">
-          <Button onClick={addTiming} disabled={timings.length>=4}><Plus className="w-4 h-4 mr-1"/> Add timing</Button>
+          <Button onClick={addTiming} disabled={timings.length>=streamLimit}><Plus className="w-4 h-4 mr-1"/> Add timing</Button>
           <div className="flex items-center gap-2 ml-auto">
             <Button variant="outline" onClick={exportJson}><Download className="w-4 h-4 mr-1"/> Export JSON</Button>
             <label className="inline-flex items-center">
@@ -855,14 +1358,45 @@ export default function App(){
         <Card className="mt-6 rounded-2xl shadow-sm border-2">
           <CardContent className="p-5 grid gap-5">
             <div className="flex flex-col gap-3">
-              <div className="flex items-center gap-3">{fits ? (<CheckCircle2 className="w-6 h-6 text-emerald-600"/>) : (<AlertTriangle className="w-6 h-6 text-amber-500"/>) }<div className="text-xl font-semibold">{fits?"Fits within selected DP payload":"Exceeds selected DP payload"}</div></div>
+              <div className="flex items-center gap-3">{fits ? (<CheckCircle2 className="w-6 h-6 text-emerald-600"/>) : (<AlertTriangle className="w-6 h-6 text-amber-500"/>) }<div className="text-xl font-semibold">{fits?`Fits within selected ${hdmi ? "HDMI" : "DP"} payload`:`Exceeds selected ${hdmi ? "HDMI" : "DP"} payload`}</div></div>
+              {evaluation.linkErrors.map(err=>(<div key={err} className="rounded-lg border border-red-200 bg-red-50 p-2 text-xs text-red-700">{err}</div>))}
+              {evaluation.capabilityErrors.length > 0 && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+                  <div className="font-medium">Capability limits exceeded</div>
+                  {evaluation.capabilityErrors.map((err, i)=>(<div key={i}>{err}</div>))}
+                </div>
+              )}
               <div className="grid gap-3 text-sm md:grid-cols-3">
                 <div className="rounded-xl border bg-white p-3"><div className="font-medium">Total required (selected)</div><div className={`text-2xl font-bold ${fits?"":"text-red-600"}`}>{totalGbps.toFixed(2)} <span className="text-base font-medium">Gbps</span></div><div className="text-slate-500">Sum of chosen peak_bw / peak_bw_dsc</div></div>
-                <div className="rounded-xl border bg-white p-3"><div className="font-medium">Payload capacity</div><div className="text-2xl font-bold">{payloadCapacityGbps.toFixed(2)} <span className="text-base font-medium">Gbps</span></div><div className="text-slate-500">Rate × lanes × coding efficiency</div></div>
+                <div className="rounded-xl border bg-white p-3"><div className="font-medium">Payload capacity</div><div className="text-2xl font-bold">{payloadCapacityGbps.toFixed(2)} <span className="text-base font-medium">Gbps</span></div><div className="text-slate-500">Rate × lanes × link efficiency</div></div>
                 <div className="rounded-xl border bg-white p-3"><div className="font-medium">Margin</div><div className={`text-2xl font-bold ${margin<0?"text-red-600":""}`}>{margin.toFixed(2)} <span className="text-base font-medium">Gbps</span></div><div className="text-slate-500">{marginPct.toFixed(1)}% of capacity</div></div>
               </div>
             </div>
 
+            {!evaluation.fits && (
+              <div className="rounded-xl border bg-white p-4 text-xs text-slate-600 grid gap-2">
+                <div className="flex items-center justify-between">
+                  <div className="font-semibold text-slate-500">Make it fit</div>
+                  <Button size="sm" variant="outline" onClick={runSolver}><Wand2 className="w-4 h-4 mr-1"/> Find least lossy fit</Button>
+                </div>
+                {solverResult && (solverResult.solution ? (
+                  <div className="grid gap-1">
+                    {solverResult.solution.choices.map((c, i)=>(<div key={i}><span className="font-medium">{timings[i]?.label}</span>: {describeChoice(c)} · {c.gbps.toFixed(2)} Gbps</div>))}
+                    <div className="flex items-center justify-between">
+                      <span>Margin {solverResult.solution.marginGbps.toFixed(2)} Gbps · loss score {solverResult.solution.loss.toFixed(2)}</span>
+                      <Button size="sm" onClick={()=>applySolution(solverResult.solution.choices)}>Apply</Button>
+                    </div>
+                  </div>
+                ) : <div className="text-red-600">No combination fits within the locked options.</div>)}
+                {solverResult && solverResult.rejected.length > 0 && (
+                  <details>
+                    <summary className="cursor-pointer">Rejected less lossy alternatives ({solverResult.rejected.length})</summary>
+                    {solverResult.rejected.map((alt, i)=>(<div key={i} className="mt-1">{alt.choices.map((c, j)=> `${timings[j]?.label}: ${describeChoice(c)}`).join(" | ")} — margin {alt.marginGbps.toFixed(2)} Gbps</div>))}
+                  </details>
+                )}
+              </div>
+            )}
+
             <div className="rounded-xl border bg-white p-4 text-xs text-slate-600">
               <div className="font-semibold text-slate-500">Utilization</div>
               <div className="mt-2 h-3 w-full overflow-hidden rounded-full bg-slate-200">
@@ -880,7 +1414,7 @@ export default function App(){
               <div className="mt-4">
                 <div className="flex items-center justify-between text-[11px] font-medium text-slate-500">
                   <span>MST time slots</span>
-                  <span>{slotsUsed}/{MST_SLOT_TOTAL}{overflowSlots > 0 ? ` (+${overflowSlots} overflow)` : ''}</span>
+                  <span>{slotsUsed}/{MST_PAYLOAD_SLOTS}{overflowSlots > 0 ? ` (+${overflowSlots} overflow)` : ''} · {evaluation.mst.pbnPerSlot.toFixed(2)} PBN/slot</span>
                 </div>
                 <div className="mt-2">
                   <div
@@ -888,49 +1422,85 @@ export default function App(){
                     style={{ gridTemplateColumns: `repeat(${MST_SLOT_TOTAL}, minmax(0, 1fr))` }}
                   >
                     {mstSlots.map((slotOwner, index) => {
-                      const color = slotOwner !== null ? TIMING_COLORS[slotOwner % TIMING_COLORS.length] : '#cbd5f5';
-                      const tooltip = slotOwner !== null
-                        ? `${parsed[slotOwner]?.label ?? 'Timing'} • ${slotCounts[slotOwner]} slots • ${(parsed[slotOwner]?.selected ?? 0).toFixed(2)} Gbps`
-                        : 'Unallocated slot';
+                      const header = index < MST_HEADER_SLOTS;
+                      const color = header ? '#475569' : slotOwner !== null ? timingColor(slotOwner) : '#cbd5f5';
+                      const tooltip = header
+                        ? 'MTP header'
+                        : slotOwner !== null
+                          ? `${parsed[slotOwner]?.label ?? 'Timing'} • ${slotCounts[slotOwner]} slots • PBN ${evaluation.mst.streams[slotOwner]?.pbn} • ${(parsed[slotOwner]?.selected ?? 0).toFixed(2)} Gbps`
+                          : 'Unallocated slot';
                       return (
                         <div
                           key={index}
                           className="h-3 rounded-sm border border-slate-200"
-                          style={{ backgroundColor: color, opacity: slotOwner !== null ? 1 : 0.35 }}
+                          style={{ backgroundColor: color, opacity: header || slotOwner !== null ? 1 : 0.35 }}
                           title={tooltip}
                         />
                       );
                     })}
                   </div>
                 </div>
+                {failedStreams.length > 0 && (
+                  <div className="mt-2 text-[11px] text-red-600">
+                    {failedStreams.map(st=>(<div key={st.index}>{parsed[st.index]?.label || `Timing ${st.index+1}`}: needs {st.requiredSlots} slots (PBN {st.pbn}), {MST_PAYLOAD_SLOTS - slotsUsed} free — stream not allocated</div>))}
+                  </div>
+                )}
               </div>
               <div className="mt-3 leading-relaxed text-[11px] text-slate-500">
-                <p className="mb-1">Assumes only line coding overhead. Protocol framing is ignored.</p>
+                <p className="mb-1">Includes line coding, FEC, SSC downspread and MTP header overhead; FEC turns on with DSC on 8b/10b links.</p>
                 <p>Adjust lanes when modeling eDP or MST shares.</p>
               </div>
             </div>
           </CardContent>
         </Card>
+
+        {/* Visualization */}
+        <Card className="mt-4 rounded-2xl shadow-sm"><CardContent className="p-5 grid gap-4">
+          <div className="text-sm font-semibold uppercase tracking-wide text-slate-500">Bandwidth Chart</div>
+          <div className="h-56 text-xs">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} margin={{ top: 10, right: 16, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0"/>
+                <XAxis dataKey="name"/>
+                <YAxis domain={[0, chartDomainUpper]} tickFormatter={(v:number)=> v.toFixed(0)} unit=" G"/>
+                <Tooltip formatter={(v:number)=> `${v.toFixed(2)} Gbps`}/>
+                <Legend/>
+                <Area type="monotone" dataKey="raw" name="Uncompressed" stroke="#94a3b8" fill="#e2e8f0"/>
+                <Area type="monotone" dataKey="selected" name="Selected" stroke="#2563eb" fill="#bfdbfe"/>
+                <ReferenceLine y={payloadCapacityGbps} stroke="#dc2626" strokeDasharray="4 4" label={{ value: `Payload ${payloadCapacityGbps.toFixed(2)} Gbps`, position: "insideTopRight", fill: "#dc2626", fontSize: 11 }}/>
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+          <label className="inline-flex items-center gap-2 text-sm"><Switch checked={sweepsOpen} onCheckedChange={setSweepsOpen}/> Refresh sweeps per timing</label>
+          {sweepsOpen && sweeps.map((sweep, index)=> sweep && (
+            <div key={timings[index].id} className="rounded-xl border bg-white p-3 grid gap-2 text-xs">
+              <div className="font-medium">{timings[index].label} · {timings[index].h}×{timings[index].v}, {Math.max(0, sweep.limitGbps).toFixed(2)} Gbps left next to the other streams</div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={sweep.rows} margin={{ top: 10, right: 16, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0"/>
+                    <XAxis dataKey="hz" type="number" domain={["dataMin", "dataMax"]} unit=" Hz"/>
+                    <YAxis tickFormatter={(v:number)=> v.toFixed(0)} unit=" G"/>
+                    <Tooltip formatter={(v:number)=> `${v.toFixed(2)} Gbps`} labelFormatter={(hz:number)=> `${hz} Hz`}/>
+                    <Legend/>
+                    {sweep.variants.map(variant=>(
+                      <Line key={variant.id} type="monotone" dataKey={variant.id} name={`${variant.cvtKind}${variant.useDsc ? " + DSC" : ""}`} stroke={SWEEP_COLORS[variant.cvtKind]} strokeDasharray={variant.useDsc ? "5 3" : undefined} dot={false} isAnimationActive={false}/>
+                    ))}
+                    <ReferenceLine y={Math.max(0, sweep.limitGbps)} stroke="#dc2626" strokeDasharray="4 4"/>
+                    {Number(timings[index].hz) > 0 && <ReferenceLine x={Number(timings[index].hz)} stroke="#475569" strokeDasharray="2 2"/>}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-slate-600">
+                {sweep.variants.map(variant=>(
+                  <span key={variant.id}>{variant.cvtKind}{variant.useDsc ? " + DSC" : ""}: {sweep.crossings[variant.id] !== undefined ? `exceeds at ${sweep.crossings[variant.id]} Hz` : "fits across the plot"}</span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent></Card>
         <div className="mt-8 text-center text-xs text-slate-500">The DisplayPort bandwidth calculation is for reference only.</div>
       </div>
     </div>
   );
 }
-
-// ---------------------------
-// Lightweight runtime tests (no external deps)
-// ---------------------------
-if(typeof window!=="undefined"){
-  // RB <= CVT and RB2 <= RB1 clock monotonicity
-  const clk1 = pixelClockMHzFromTotals(1920,1080,60,88,44,148,4,5,36);
-  const clk2 = pixelClockMHzFromTotals(1920,1080,60,48,32,80,3,6,33);
-  const clk3 = pixelClockMHzFromTotals(1920,1080,60,8,32,120,3,6,9);
-  console.assert(clk2 < clk1 && clk3 <= clk2, "RB clocks monotonicity", clk1, clk2, clk3);
-
-  const gb1 = streamGbpsFromClock(148.5,24); const gb2 = gb1/3; const gb3 = gb1/2.4;
-  console.assert(gb2 < gb1 && gb3 < gb1, "DSC reduces bandwidth");
-
-  console.assert(utilColor(false,50)==='bg-red-500', 'Color: over capacity');
-  console.assert(utilColor(true,5)==='bg-amber-400', 'Color: low margin');
-  console.assert(utilColor(true,20)==='bg-emerald-500', 'Color: healthy');
-}
@@ -0,0 +1,96 @@
+// Source (GPU) and sink (monitor) capability profiles and the limits they put on a configuration.
+import type { BandwidthConfig, TimingConfig, TimingEvaluation } from "./evaluate";
+import { COLOR_FORMATS, DEFAULT_COLOR_FORMAT } from "./timing";
+
+export type CapabilityRole = "source" | "sink";
+// Native 4:2:2 / 4:2:0 compression arrived with DSC 1.2.
+export type DscVersion = "1.1" | "1.2";
+export const DSC_VERSIONS: DscVersion[] = ["1.1", "1.2"];
+
+// Unset limits are not checked.
+export interface CapabilityProfile {
+  id: string;
+  label: string;
+  role: CapabilityRole;
+  // Highest per-lane link rate (Gbps) and lane count.
+  maxRate?: number;
+  maxLanes?: number;
+  // DSC decoder / encoder version; no DSC when unset.
+  dscVersion?: DscVersion;
+  // Per display pipe on a source, per timing on a sink.
+  maxPixelClockMHz?: number;
+  // Source only: concurrent streams (display engines) and pixel rate summed over all pipes.
+  maxStreams?: number;
+  maxTotalPixelClockMHz?: number;
+}
+
+export const CAPABILITY_PROFILES: CapabilityProfile[] = [
+  { id: "src_dp12", label: "DP 1.2 GPU (HBR2, no DSC)", role: "source", maxRate: 5.4, maxLanes: 4, maxPixelClockMHz: 600, maxStreams: 3, maxTotalPixelClockMHz: 1800 },
+  { id: "src_dp14", label: "DP 1.4 GPU (HBR3, DSC 1.2)", role: "source", maxRate: 8.1, maxLanes: 4, dscVersion: "1.2", maxPixelClockMHz: 1350, maxStreams: 4, maxTotalPixelClockMHz: 2700 },
+  { id: "src_dp21", label: "DP 2.1 GPU (UHBR20, DSC 1.2)", role: "source", maxRate: 20, maxLanes: 4, dscVersion: "1.2", maxPixelClockMHz: 2000, maxStreams: 4, maxTotalPixelClockMHz: 4000 },
+  { id: "sink_dp12", label: "DP 1.2 monitor (HBR2, 600 MHz)", role: "sink", maxRate: 5.4, maxLanes: 4, maxPixelClockMHz: 600 },
+  { id: "sink_dp14_dsc11", label: "DP 1.4 monitor (HBR3, DSC 1.1)", role: "sink", maxRate: 8.1, maxLanes: 4, dscVersion: "1.1", maxPixelClockMHz: 1000 },
+  { id: "sink_dp14_dsc12", label: "DP 1.4 monitor (HBR3, DSC 1.2)", role: "sink", maxRate: 8.1, maxLanes: 4, dscVersion: "1.2", maxPixelClockMHz: 1350 },
+  { id: "sink_dp21", label: "DP 2.1 monitor (UHBR13.5, DSC 1.2)", role: "sink", maxRate: 13.5, maxLanes: 4, dscVersion: "1.2", maxPixelClockMHz: 2000 },
+];
+
+const CVT_SUFFIX: Record<string, string> = { cvt: "CVT", cvt_rb: "RB", cvt_rb2: "RB2", cvt_rb3: "RB3" };
+
+export function findProfile(profiles: CapabilityProfile[] | undefined, id: string | undefined) {
+  return id ? (profiles ?? CAPABILITY_PROFILES).find((p) => p.id === id) : undefined;
+}
+
+// The source's display engines: the explicit count or the source profile's, whichever is lower.
+export function sourceDisplayEngines(config: BandwidthConfig) {
+  const counts = [config.displayEngines, findProfile(config.profiles, config.sourceProfileId)?.maxStreams].filter((n) => n > 0);
+  return counts.length ? Math.min(...counts) : undefined;
+}
+
+// "3840×2160@144 RB2", or the label when the timing has no mode.
+function describeTiming(timing: TimingConfig, row: TimingEvaluation) {
+  if (!(Number(timing.h) > 0 && Number(timing.v) > 0 && Number(timing.hz) > 0)) return row.label;
+  const suffix = CVT_SUFFIX[timing.cvtKind ?? "cvt_rb2"];
+  return `${timing.h}×${timing.v}@${timing.hz}${suffix ? ` ${suffix}` : ""}`;
+}
+
+function linkViolations(profile: CapabilityProfile, config: BandwidthConfig) {
+  const who = `${profile.role === "source" ? "Source" : "Sink"} "${profile.label}"`;
+  const errors: string[] = [];
+  if (profile.maxRate && config.transport.rate > profile.maxRate + 1e-9) errors.push(`${who} max link rate ${profile.maxRate} Gbps/lane exceeded by the ${config.transport.rate} Gbps link.`);
+  if (profile.maxLanes && config.transport.lanes > profile.maxLanes) errors.push(`${who} supports ${profile.maxLanes} lanes; the link uses ${config.transport.lanes}.`);
+  return errors;
+}
+
+function timingViolations(profile: CapabilityProfile, timing: TimingConfig, row: TimingEvaluation) {
+  const who = `${profile.role === "source" ? "Source" : "Sink"} "${profile.label}"`;
+  const errors: string[] = [];
+  if (profile.maxPixelClockMHz && row.pixelClockMHz > profile.maxPixelClockMHz + 1e-6) {
+    errors.push(`${who} max pixel clock ${profile.maxPixelClockMHz} MHz exceeded by ${describeTiming(timing, row)} (${row.pixelClockMHz.toFixed(2)} MHz).`);
+  }
+  if (row.useDsc && !profile.dscVersion) errors.push(`${who} does not support DSC, used by ${describeTiming(timing, row)}.`);
+  else if (row.useDsc && profile.dscVersion === "1.1" && COLOR_FORMATS[timing.colorFormat ?? DEFAULT_COLOR_FORMAT].sampling !== "444") {
+    errors.push(`${who} has DSC 1.1, which cannot compress native 4:2:x as used by ${describeTiming(timing, row)}.`);
+  }
+  return errors;
+}
+
+// Everything the attached source and sink profiles rule out; a timing's own sink profile replaces
+// the link's sink for that timing.
+export function capabilityViolations(config: BandwidthConfig, rows: TimingEvaluation[]) {
+  const source = findProfile(config.profiles, config.sourceProfileId);
+  const linkSink = findProfile(config.profiles, config.sinkProfileId);
+  const errors: string[] = [];
+  if (source) errors.push(...linkViolations(source, config));
+  if (linkSink) errors.push(...linkViolations(linkSink, config));
+  rows.forEach((row, i) => {
+    const timing = config.timings[i];
+    if (source) errors.push(...timingViolations(source, timing, row));
+    const sink = findProfile(config.profiles, timing.sinkProfileId) ?? linkSink;
+    if (sink) errors.push(...timingViolations(sink, timing, row));
+  });
+  const totalClock = rows.reduce((sum, row) => sum + (row.pixelClockMHz ?? 0), 0);
+  if (source?.maxTotalPixelClockMHz && totalClock > source.maxTotalPixelClockMHz + 1e-6) {
+    errors.push(`Source "${source.label}" max total pixel rate ${source.maxTotalPixelClockMHz} MHz exceeded by ${totalClock.toFixed(2)} MHz across ${rows.length} pipes.`);
+  }
+  return errors;
+}
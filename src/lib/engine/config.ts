@@ -0,0 +1,223 @@
+// Normalization of exported configuration JSON (the `dp_multi_timing_config.json` format).
+import { DSC_VERSIONS, type CapabilityProfile } from "./capabilities";
+import { laneOptions, normalizeCoding, type LinkConfig } from "./link";
+import { METADATA_SDPS, type AudioConfig, type MetadataSdpId } from "./sdp";
+import { bitsPerPixel, DEFAULT_BPC, DEFAULT_COLOR_FORMAT, isColorFormatId, pixelClockMHzFromTotals } from "./timing";
+import type { BandwidthConfig, TimingConfig } from "./evaluate";
+import type { SolverLocks } from "./solver";
+import type { Topology, TopologyNode } from "./topology";
+import { PIN_ASSIGNMENTS, usbCCable, type UsbCAltMode } from "./usbc";
+import { usb4Speed, type Usb4Config, type Usb4DpAdapter } from "./usb4";
+
+export interface NormalizedTiming extends TimingConfig {
+  id: string;
+  label: string;
+  peakBw: string;
+  peakBwDsc: string;
+  useDsc: boolean;
+  calcOpen: boolean;
+  collapsed: boolean;
+  modeIndex: number;
+  modeKey?: string;
+  modeSource?: string;
+  solverLocks?: SolverLocks;
+  cvtId?: string;
+  bpp: number;
+}
+
+export interface ImportedConfig extends BandwidthConfig {
+  timings: NormalizedTiming[];
+  presetId?: string;
+  topology?: Topology;
+  usbc?: UsbCAltMode;
+}
+
+function finiteOrUndefined(value: unknown) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function normalizeAudio(value: any): AudioConfig | undefined {
+  const channels = Number(value?.channels);
+  const sampleRateHz = Number(value?.sampleRateHz);
+  if (!(channels > 0) || !(sampleRateHz > 0)) return undefined;
+  return { channels, sampleRateHz, sampleSize: Number(value.sampleSize) || 24, compressed: Boolean(value.compressed) };
+}
+
+function normalizeMetadataSdps(value: any): MetadataSdpId[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return METADATA_SDPS.map((sdp) => sdp.id).filter((id) => value.includes(id));
+}
+
+export function normalizeTimingConfig(t: any, i: number): NormalizedTiming {
+  const colorFormat = isColorFormatId(t.colorFormat) ? t.colorFormat : DEFAULT_COLOR_FORMAT;
+  const rawBpc = Number(t.bpc);
+  const bpc = Number.isFinite(rawBpc) && rawBpc > 0 ? rawBpc : DEFAULT_BPC;
+  const rawBpp = Number(t.bpp);
+  const bpp = Number.isFinite(rawBpp) && rawBpp > 0 ? rawBpp : bitsPerPixel(bpc, colorFormat);
+
+  const h = finiteOrUndefined(t.h);
+  const v = finiteOrUndefined(t.v);
+  const hz = finiteOrUndefined(t.hz);
+  const hFront = finiteOrUndefined(t.hFront);
+  const hSync = finiteOrUndefined(t.hSync);
+  const hBack = finiteOrUndefined(t.hBack);
+  const vFront = finiteOrUndefined(t.vFront);
+  const vSync = finiteOrUndefined(t.vSync);
+  const vBack = finiteOrUndefined(t.vBack);
+
+  const totals = [h, v, hz, hFront, hSync, hBack, vFront, vSync, vBack];
+  const rawPixelClock = Number(t.pixelClock);
+  const computedPixelClock = totals.every((value) => value !== undefined)
+    ? pixelClockMHzFromTotals(h, v, hz, hFront, hSync, hBack, vFront, vSync, vBack)
+    : undefined;
+  const pixelClock = Number.isFinite(rawPixelClock) && rawPixelClock > 0 ? rawPixelClock : computedPixelClock;
+
+  return {
+    id: t.id || `${Date.now()}_${i}`,
+    label: String(t.label ?? `Timing ${i + 1}`),
+    peakBw: String(t.peakBw ?? ""),
+    peakBwDsc: String(t.peakBwDsc ?? ""),
+    useDsc: Boolean(t.useDsc),
+    calcOpen: Boolean(t.calcOpen),
+    collapsed: Boolean(t.collapsed),
+    modeIndex: typeof t.modeIndex === "number" ? t.modeIndex : 0,
+    modeKey: typeof t.modeKey === "string" ? t.modeKey : undefined,
+    sinkId: typeof t.sinkId === "string" ? t.sinkId : undefined,
+    sinkProfileId: typeof t.sinkProfileId === "string" ? t.sinkProfileId : undefined,
+    solverLocks: t.solverLocks && typeof t.solverLocks === "object" ? t.solverLocks : undefined,
+    modeSource: typeof t.modeSource === "string" ? t.modeSource : undefined,
+    cvtKind: t.cvtKind || "cvt_rb2",
+    h, v, hz,
+    hFront, hSync, hBack,
+    vFront, vSync, vBack,
+    bpp,
+    bpc,
+    colorFormat,
+    dscRatio: t.dscRatio,
+    dscBpp: finiteOrUndefined(t.dscBpp),
+    dscSlices: finiteOrUndefined(t.dscSlices),
+    dscLineBufferDepth: finiteOrUndefined(t.dscLineBufferDepth),
+    dscSliceThroughput: finiteOrUndefined(t.dscSliceThroughput),
+    dscMaxSliceWidth: finiteOrUndefined(t.dscMaxSliceWidth),
+    pixelClock,
+    interlaced: Boolean(t.interlaced),
+    hSyncPositive: typeof t.hSyncPositive === "boolean" ? t.hSyncPositive : undefined,
+    vSyncPositive: typeof t.vSyncPositive === "boolean" ? t.vSyncPositive : undefined,
+    margins: Boolean(t.margins),
+    videoOptimized: Boolean(t.videoOptimized),
+    extraHBlank: finiteOrUndefined(t.extraHBlank),
+    extraVBlankUs: finiteOrUndefined(t.extraVBlankUs),
+    cvtId: typeof t.cvtId === "string" ? t.cvtId : undefined,
+    audio: normalizeAudio(t.audio),
+    metadataSdps: normalizeMetadataSdps(t.metadataSdps),
+  };
+}
+
+// Fill the gaps of an imported transport block from `fallback` (the currently selected link).
+export function normalizeTransport(transport: any, fallback: LinkConfig): LinkConfig {
+  const importedLanes = Number(transport?.lanes);
+  const coding = normalizeCoding(transport?.coding);
+  const options = laneOptions(coding);
+  const lanes = options.includes(importedLanes) ? importedLanes : options[options.length-1];
+  return {
+    rate: Number(transport?.rate) || fallback.rate,
+    lanes,
+    coding,
+    ssc: typeof transport?.ssc === "boolean" ? transport.ssc : fallback.ssc ?? true,
+  };
+}
+
+export function normalizeTopology(value: any, fallback: LinkConfig): Topology | undefined {
+  if (!value || !Array.isArray(value.nodes)) return undefined;
+  const nodes: TopologyNode[] = value.nodes
+    .filter((n: any) => n && typeof n.id === "string")
+    .map((n: any, i: number) => ({
+      id: n.id,
+      label: String(n.label ?? `Device ${i + 1}`),
+      kind: n.kind === "sink" ? "sink" : "branch",
+      parentId: typeof n.parentId === "string" ? n.parentId : undefined,
+      link: n.link ? normalizeTransport(n.link, fallback) : undefined,
+      presetId: typeof n.presetId === "string" ? n.presetId : undefined,
+    }));
+  return { nodes };
+}
+
+export function normalizeUsb4(value: any, fallback: LinkConfig): Usb4Config | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const adapters: Usb4DpAdapter[] = (Array.isArray(value.adapters) ? value.adapters : [])
+    .filter((a: any) => a && typeof a.id === "string")
+    .map((a: any, i: number) => ({
+      id: a.id,
+      label: String(a.label ?? `DP IN ${i + 1}`),
+      link: a.link ? normalizeTransport(a.link, fallback) : undefined,
+      presetId: typeof a.presetId === "string" ? a.presetId : undefined,
+      demandGbps: finiteOrUndefined(a.demandGbps),
+    }));
+  return {
+    speedId: usb4Speed(value.speedId).id,
+    pcieReserveGbps: Math.max(0, Number(value.pcieReserveGbps) || 0),
+    usb3ReserveGbps: Math.max(0, Number(value.usb3ReserveGbps) || 0),
+    bandwidthAllocationMode: Boolean(value.bandwidthAllocationMode),
+    adapters,
+  };
+}
+
+export function normalizeUsbCAltMode(value: any): UsbCAltMode | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const pin = PIN_ASSIGNMENTS.find((p) => p.id === value.pinAssignment) ?? PIN_ASSIGNMENTS[0];
+  return { pinAssignment: pin.id, keepUsbData: Boolean(value.keepUsbData), cable: usbCCable(value.cable).id };
+}
+
+function positiveOrUndefined(value: unknown) {
+  const n = finiteOrUndefined(value);
+  return n > 0 ? n : undefined;
+}
+
+export function normalizeCapabilityProfile(p: any, i: number): CapabilityProfile {
+  const role = p.role === "sink" ? "sink" : "source";
+  return {
+    id: typeof p.id === "string" && p.id ? p.id : `profile_${Date.now()}_${i}`,
+    label: String(p.label ?? `${role === "sink" ? "Sink" : "Source"} ${i + 1}`),
+    role,
+    maxRate: positiveOrUndefined(p.maxRate),
+    maxLanes: positiveOrUndefined(p.maxLanes),
+    dscVersion: DSC_VERSIONS.find((v) => v === String(p.dscVersion ?? "")),
+    maxPixelClockMHz: positiveOrUndefined(p.maxPixelClockMHz),
+    maxStreams: role === "source" ? positiveOrUndefined(p.maxStreams) : undefined,
+    maxTotalPixelClockMHz: role === "source" ? positiveOrUndefined(p.maxTotalPixelClockMHz) : undefined,
+  };
+}
+
+function normalizeProfiles(value: any): CapabilityProfile[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((p: any) => p && typeof p === "object").map(normalizeCapabilityProfile);
+}
+
+// A profile library file: a bare array of profiles or an object with a `profiles` array.
+export function parseProfilesJson(text: string): CapabilityProfile[] {
+  const j = JSON.parse(text || "[]");
+  return normalizeProfiles(Array.isArray(j) ? j : j?.profiles) ?? [];
+}
+
+// Parse the exported JSON text. Throws on malformed JSON; `timings` is empty when the file has none.
+export function parseConfigJson(text: string, fallback: LinkConfig): ImportedConfig & { hasTimings: boolean; hasTransport: boolean } {
+  const j = JSON.parse(text || "{}");
+  const hasTimings = Array.isArray(j.timings);
+  const hasTransport = Boolean(j.transport);
+  const transport = hasTransport ? normalizeTransport(j.transport, fallback) : fallback;
+  return {
+    timings: hasTimings ? j.timings.map(normalizeTimingConfig) : [],
+    transport,
+    presetId: typeof j.presetId === "string" ? j.presetId : undefined,
+    topology: normalizeTopology(j.topology, transport),
+    usb4: normalizeUsb4(j.usb4, transport),
+    usbc: normalizeUsbCAltMode(j.usbc),
+    displayEngines: positiveOrUndefined(j.displayEngines),
+    profiles: normalizeProfiles(j.profiles),
+    sourceProfileId: typeof j.sourceProfileId === "string" ? j.sourceProfileId : undefined,
+    sinkProfileId: typeof j.sinkProfileId === "string" ? j.sinkProfileId : undefined,
+    hasTimings,
+    hasTransport,
+  };
+}
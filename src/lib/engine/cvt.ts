@@ -0,0 +1,251 @@
+// CVT / CVT-RB / CVT-RB2 / CVT-RB3 timing generator, plus GTF for EDID 1.3 standard timings.
+// Known-answer vectors: cli/cvt-conformance.ts (`npm run conformance`).
+
+// "manual" derives the clock from hand-typed porches; "exact" keeps porches and pixel clock as
+// advertised by an EDID or a timing standard.
+export type CvtKind = "manual" | "exact" | "cvt" | "cvt_rb" | "cvt_rb2" | "cvt_rb3";
+
+export type CvtProfile = Exclude<CvtKind, "manual" | "exact">;
+
+// RB3 keeps RB2's fixed blanking but lets the source add horizontal blank (in 8-pixel steps) and
+// vertical blank time (e.g. headroom for adaptive refresh).
+export const CVT_RB3_EXTRA_HBLANK_OPTIONS = [0, 8, 16, 24, 32, 40, 48, 56, 64, 72, 80, 88, 96, 104, 112, 120] as const;
+export const CVT_RB3_MAX_EXTRA_VBLANK_US = 2000;
+
+// Only the RB2/RB3 clock granularity is fine enough for the 1000/1001 video-optimized variant.
+export function supportsVideoOptimized(profile: CvtKind) {
+  return profile === "cvt_rb2" || profile === "cvt_rb3";
+}
+
+// CVT signals a standard-blanking timing with -hsync +vsync and reduced blanking with +hsync -vsync.
+export function cvtSyncPolarity(profile: CvtProfile) {
+  const reduced = profile !== "cvt";
+  return { hSyncPositive: reduced, vSyncPositive: !reduced };
+}
+
+const CVT_ASPECT_CODES: Record<string, string> = { "4:3": "3", "16:9": "9", "16:10": "A", "5:4": "4" };
+const CVT_PROFILE_SUFFIX: Record<CvtProfile, string> = { cvt: "", cvt_rb: "-R", cvt_rb2: "-R2", cvt_rb3: "-R3" };
+
+const CVT_CELL_GRAN = 8;
+const CVT_HSYNC_PERCENT = 0.08;
+const CVT_MIN_V_PORCH = 3;
+const CVT_MIN_VSYNC_BP = 550;
+const CVT_MIN_V_BPORCH = 6;
+const CVT_MARGIN_PERCENT = 1.8;
+const CVT_C_PRIME = 30;
+const CVT_M_PRIME = 300;
+
+export interface CvtTimingResult {
+  // CVT identifier: megapixels, "M", aspect code and profile suffix, e.g. "8.29M9-R3".
+  cvtId: string;
+  // Matched aspect ratio, or "Unknown" (which selects the 10-line vsync).
+  aspectRatio: string;
+  pixelClockMHz: number;
+  hTotal: number;
+  vTotal: number;
+  hBlank: number;
+  vBlank: number;
+  hFront: number;
+  hSync: number;
+  hBack: number;
+  vFront: number;
+  vSync: number;
+  vBack: number;
+}
+
+export function calculateCvtTiming({
+  hActive,
+  vActive,
+  refreshHz,
+  reducedBlanking,
+  margins = false,
+  interlaced = false,
+  videoOptimized = false,
+  extraHBlank = 0,
+  extraVBlankUs = 0,
+}: {
+  hActive: number;
+  vActive: number;
+  refreshHz: number;
+  reducedBlanking: CvtProfile;
+  margins?: boolean;
+  interlaced?: boolean;
+  videoOptimized?: boolean;
+  // CVT-RB3 only.
+  extraHBlank?: number;
+  extraVBlankUs?: number;
+}): CvtTimingResult {
+  const rb3 = reducedBlanking === "cvt_rb3";
+  const rb3HBlank = rb3 ? Math.min(120, Math.max(0, Math.floor(extraHBlank / 8) * 8)) : 0;
+  const rb3VBlankUs = rb3 ? Math.min(CVT_RB3_MAX_EXTRA_VBLANK_US, Math.max(0, extraVBlankUs)) : 0;
+
+  const clockParams = (() => {
+    switch (reducedBlanking) {
+      case "cvt":
+        return { clockStep: 0.25, clockStepInv: 4, rbHBlank: 160, rbHSync: 32, rbMinVBlank: 460, rbVFrontPorch: 3, refreshMultiplier: 1 };
+      case "cvt_rb":
+        return { clockStep: 0.25, clockStepInv: 4, rbHBlank: 160, rbHSync: 32, rbMinVBlank: 460, rbVFrontPorch: 3, refreshMultiplier: 1 };
+      case "cvt_rb3":
+        return { clockStep: 0.001, clockStepInv: 1000, rbHBlank: 80 + rb3HBlank, rbHSync: 32, rbMinVBlank: 460 + rb3VBlankUs, rbVFrontPorch: 1, refreshMultiplier: videoOptimized ? 1000 / 1001 : 1 };
+      case "cvt_rb2":
+      default:
+        return { clockStep: 0.001, clockStepInv: 1000, rbHBlank: 80, rbHSync: 32, rbMinVBlank: 460, rbVFrontPorch: 1, refreshMultiplier: videoOptimized ? 1000 / 1001 : 1 };
+    }
+  })();
+
+  const cellGran = Math.floor(CVT_CELL_GRAN);
+  const fieldRateRequired = interlaced ? refreshHz * 2 : refreshHz;
+  const hPixelsRounded = Math.floor(hActive / cellGran) * cellGran;
+  const leftMargin = margins ? Math.floor((hPixelsRounded * CVT_MARGIN_PERCENT / 100) / cellGran) * cellGran : 0;
+  const totalActivePixels = hPixelsRounded + leftMargin * 2;
+
+  const vLinesRounded = interlaced ? Math.floor(vActive / 2) : Math.floor(vActive);
+  const topMargin = margins ? Math.floor(vLinesRounded * CVT_MARGIN_PERCENT / 100) : 0;
+  const bottomMargin = topMargin;
+  const interlaceFactor = interlaced ? 0.5 : 0;
+
+  const verPixels = interlaced ? 2 * vLinesRounded : vLinesRounded;
+  const aspectCandidates: Array<[string, number]> = [
+    ["4:3", 4 / 3],
+    ["16:9", 16 / 9],
+    ["16:10", 16 / 10],
+    ["5:4", 5 / 4],
+    ["15:9", 15 / 9],
+    ["43:18", 43 / 18],
+    ["64:27", 64 / 27],
+    ["12:5", 12 / 5],
+  ];
+  const aspectRatio = aspectCandidates.find(([_, ratio]) => (cellGran * Math.round(verPixels * ratio / cellGran)) === hPixelsRounded)?.[0] ?? "Unknown";
+
+  let vSyncRounded: number;
+  if (reducedBlanking === "cvt_rb2" || rb3) vSyncRounded = 8;
+  else if (aspectRatio === "4:3") vSyncRounded = 4;
+  else if (aspectRatio === "16:9") vSyncRounded = 5;
+  else if (aspectRatio === "16:10") vSyncRounded = 6;
+  else if (aspectRatio === "5:4") vSyncRounded = 7;
+  else if (aspectRatio === "15:9") vSyncRounded = 7;
+  else vSyncRounded = 10;
+
+  let hBlank: number;
+  let hFrontPorch: number;
+  let hSync: number;
+  let hBackPorch: number;
+  let vFrontPorch: number;
+  let vBackPorch: number;
+  let vBlank: number;
+  let totalPixels: number;
+  let totalVLines: number;
+  let pixelClockMHz: number;
+
+  if (reducedBlanking === "cvt") {
+    const hPeriodEst = ((1 / fieldRateRequired) - CVT_MIN_VSYNC_BP / 1_000_000) / (vLinesRounded + (2 * topMargin) + CVT_MIN_V_PORCH + interlaceFactor) * 1_000_000;
+
+    let vSyncBackPorch = Math.floor(CVT_MIN_VSYNC_BP / hPeriodEst) + 1;
+    if (vSyncBackPorch < (vSyncRounded + CVT_MIN_V_BPORCH)) {
+      vSyncBackPorch = vSyncRounded + CVT_MIN_V_BPORCH;
+    }
+
+    vBlank = vSyncBackPorch + CVT_MIN_V_PORCH;
+    vFrontPorch = CVT_MIN_V_PORCH;
+    vBackPorch = vSyncBackPorch - vSyncRounded;
+
+    totalVLines = vLinesRounded + topMargin + bottomMargin + vSyncBackPorch + interlaceFactor + CVT_MIN_V_PORCH;
+
+    const idealDutyCycle = CVT_C_PRIME - (CVT_M_PRIME * hPeriodEst / 1000);
+    const minDutyCycle = 20;
+    if (idealDutyCycle < minDutyCycle) {
+      hBlank = Math.floor(totalActivePixels * minDutyCycle / (100 - minDutyCycle) / (2 * cellGran)) * (2 * cellGran);
+    } else {
+      hBlank = Math.floor(totalActivePixels * idealDutyCycle / (100 - idealDutyCycle) / (2 * cellGran)) * (2 * cellGran);
+    }
+
+    totalPixels = totalActivePixels + hBlank;
+
+    hSync = Math.floor(CVT_HSYNC_PERCENT * totalPixels / cellGran) * cellGran;
+    hBackPorch = hBlank / 2;
+    hFrontPorch = hBlank - hSync - hBackPorch;
+
+    pixelClockMHz = clockParams.clockStep * Math.floor(totalPixels / hPeriodEst / clockParams.clockStep);
+  } else {
+    const hPeriodEst = ((1_000_000 / fieldRateRequired) - clockParams.rbMinVBlank) / (vLinesRounded + topMargin + bottomMargin);
+    hBlank = clockParams.rbHBlank;
+
+    const vbiLines = Math.floor(clockParams.rbMinVBlank / hPeriodEst) + 1;
+    const rbMinVbi = clockParams.rbVFrontPorch + vSyncRounded + CVT_MIN_V_BPORCH;
+    const activeVbiLines = vbiLines < rbMinVbi ? rbMinVbi : vbiLines;
+
+    vBlank = activeVbiLines;
+    totalVLines = activeVbiLines + vLinesRounded + topMargin + bottomMargin + interlaceFactor;
+    totalPixels = totalActivePixels + clockParams.rbHBlank;
+
+    pixelClockMHz = Math.floor(fieldRateRequired * totalVLines * totalPixels * clockParams.clockStepInv / 1_000_000) * clockParams.refreshMultiplier / clockParams.clockStepInv;
+
+    if (reducedBlanking === "cvt_rb2" || rb3) {
+      vFrontPorch = activeVbiLines - vSyncRounded - 6;
+      vBackPorch = 6;
+      hSync = clockParams.rbHSync;
+      // RB3 places the additional horizontal blank in the back porch.
+      hBackPorch = 40 + rb3HBlank;
+      hFrontPorch = hBlank - hSync - hBackPorch;
+    } else {
+      vFrontPorch = 3;
+      vBackPorch = activeVbiLines - vFrontPorch - vSyncRounded;
+      hSync = clockParams.rbHSync;
+      hBackPorch = 80;
+      hFrontPorch = hBlank - hSync - hBackPorch;
+    }
+  }
+
+  const megapixels = ((hPixelsRounded * verPixels) / 1e6).toFixed(2);
+  const cvtId = `${megapixels}M${CVT_ASPECT_CODES[aspectRatio] ?? ""}${CVT_PROFILE_SUFFIX[reducedBlanking] ?? ""}`;
+
+  return {
+    cvtId,
+    aspectRatio,
+    pixelClockMHz,
+    hTotal: Math.round(totalPixels),
+    vTotal: Math.round(totalVLines),
+    hBlank: Math.round(hBlank),
+    vBlank: Math.round(vBlank),
+    hFront: Math.round(hFrontPorch),
+    hSync: Math.round(hSync),
+    hBack: Math.round(hBackPorch),
+    vFront: Math.round(vFrontPorch),
+    vSync: Math.round(vSyncRounded),
+    vBack: Math.round(vBackPorch),
+  };
+}
+
+// VESA GTF (default secondary curve off): EDID 1.3 resolves standard timings with it. No margins,
+// progressive only; signals -hsync +vsync like standard CVT.
+const GTF_MIN_V_PORCH = 1;
+const GTF_V_SYNC = 3;
+export const GTF_SYNC_POLARITY = { hSyncPositive: false, vSyncPositive: true };
+
+export type GtfTimingResult = Omit<CvtTimingResult, "cvtId" | "aspectRatio">;
+
+export function calculateGtfTiming({ hActive, vActive, refreshHz }: { hActive: number; vActive: number; refreshHz: number }): GtfTimingResult {
+  const h = Math.round(hActive / CVT_CELL_GRAN) * CVT_CELL_GRAN;
+  const hPeriodEst = ((1 / refreshHz) - CVT_MIN_VSYNC_BP / 1_000_000) / (vActive + GTF_MIN_V_PORCH) * 1_000_000;
+  const vSyncBackPorch = Math.round(CVT_MIN_VSYNC_BP / hPeriodEst);
+  const vTotal = vActive + vSyncBackPorch + GTF_MIN_V_PORCH;
+  const vFieldRateEst = 1_000_000 / hPeriodEst / vTotal;
+  const hPeriod = hPeriodEst / (refreshHz / vFieldRateEst);
+  const idealDutyCycle = CVT_C_PRIME - (CVT_M_PRIME * hPeriod / 1000);
+  const hBlank = Math.round(h * idealDutyCycle / (100 - idealDutyCycle) / (2 * CVT_CELL_GRAN)) * (2 * CVT_CELL_GRAN);
+  const hTotal = h + hBlank;
+  const hSync = Math.round(CVT_HSYNC_PERCENT * hTotal / CVT_CELL_GRAN) * CVT_CELL_GRAN;
+  return {
+    pixelClockMHz: hTotal / hPeriod,
+    hTotal,
+    vTotal,
+    hBlank,
+    vBlank: vTotal - vActive,
+    hFront: hBlank / 2 - hSync,
+    hSync,
+    hBack: hBlank / 2,
+    vFront: GTF_MIN_V_PORCH,
+    vSync: GTF_V_SYNC,
+    vBack: vSyncBackPorch - GTF_V_SYNC,
+  };
+}
@@ -0,0 +1,226 @@
+// DisplayID 1.3 / 2.x decoding: detailed, enumerated and formula-based timings plus tiled topology.
+import { calculateCvtTiming, type CvtProfile } from "./cvt";
+import { timingLabel, type DetailedTiming } from "./timing";
+
+export const EXT_TAG_DISPLAYID = 0x70;
+
+// Section: version, payload length, product type / use case, extension count, data blocks, checksum.
+const SECTION_HEADER_SIZE = 4;
+
+// Data block tags (1.3 and 2.x use separate tag ranges).
+const TAG_V1_TYPE_I_DETAILED = 0x03;
+const TAG_V1_TYPE_III_SHORT = 0x05;
+const TAG_V1_TILED_DISPLAY = 0x12;
+const TAG_V2_TYPE_VII_DETAILED = 0x22;
+const TAG_V2_TYPE_VIII_ENUMERATED = 0x23;
+const TAG_V2_TYPE_IX_FORMULA = 0x24;
+const TAG_V2_TILED_DISPLAY = 0x28;
+
+// Reference to a timing defined in another standard (Type VIII block); resolved against the timing tables.
+export interface TimingCodeRef {
+  standard: "dmt" | "vic" | "hdmi_vic";
+  code: number;
+  source: string;
+}
+
+export interface TiledTopology {
+  hTiles: number;
+  vTiles: number;
+  hLocation: number;
+  vLocation: number;
+  tileWidth: number;
+  tileHeight: number;
+  singleEnclosure: boolean;
+  source: string;
+}
+
+export interface DisplayIdResult {
+  version: string;
+  modes: DetailedTiming[];
+  timingCodes: TimingCodeRef[];
+  tiles: TiledTopology[];
+  warnings: string[];
+}
+
+const KNOWN_VERSIONS = [0x10, 0x11, 0x12, 0x13, 0x20, 0x21];
+
+export function isDisplayIdSection(bytes: Uint8Array, offset = 0) {
+  const length = bytes[offset + 1];
+  return KNOWN_VERSIONS.includes(bytes[offset]) && length !== undefined && length <= 251;
+}
+
+export function displayIdSectionChecksumOk(bytes: Uint8Array, offset: number) {
+  const checksumIndex = offset + SECTION_HEADER_SIZE + bytes[offset + 1];
+  let sum = 0;
+  for (let i = offset; i <= checksumIndex; i += 1) sum += bytes[i];
+  return (sum & 0xff) === 0;
+}
+
+const le16 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+const le24 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+// 20-byte Type I (10 kHz clock units) or Type VII (1 kHz units, clocks above 655 MHz) descriptor.
+function decodeDetailed(bytes: Uint8Array, offset: number, clockUnitKHz: number, source: string): DetailedTiming {
+  const pixelClock = ((le24(bytes, offset) + 1) * clockUnitKHz) / 1000;
+  const options = bytes[offset + 3];
+  const interlaced = (options & 0x10) !== 0;
+  const h = le16(bytes, offset + 4) + 1;
+  const hBlank = le16(bytes, offset + 6) + 1;
+  const hFrontRaw = le16(bytes, offset + 8);
+  const hSync = le16(bytes, offset + 10) + 1;
+  const vActive = le16(bytes, offset + 12) + 1;
+  const vBlank = le16(bytes, offset + 14) + 1;
+  const vFrontRaw = le16(bytes, offset + 16);
+  const vSync = le16(bytes, offset + 18) + 1;
+  const hFront = (hFrontRaw & 0x7fff) + 1;
+  const vFront = (vFrontRaw & 0x7fff) + 1;
+
+  const hTotal = h + hBlank;
+  const vTotal = vActive + vBlank;
+  const hz = (pixelClock * 1e6) / (hTotal * (interlaced ? vTotal * 2 + 1 : vTotal));
+  const v = interlaced ? vActive * 2 : vActive;
+
+  return {
+    label: timingLabel(h, v, hz, interlaced),
+    source,
+    preferred: (options & 0x80) !== 0,
+    h, v, hz,
+    hFront, hSync, hBack: hBlank - hFront - hSync,
+    vFront, vSync, vBack: vBlank - vFront - vSync,
+    pixelClock,
+    interlaced,
+    hSyncPositive: (hFrontRaw & 0x8000) !== 0,
+    vSyncPositive: (vFrontRaw & 0x8000) !== 0,
+  };
+}
+
+const FORMULA_PROFILES: Record<number, CvtProfile> = { 0: "cvt", 1: "cvt_rb", 2: "cvt_rb2", 3: "cvt_rb3" };
+
+function formulaTiming(h: number, v: number, hz: number, formula: number, source: string, result: DisplayIdResult, preferred = false): DetailedTiming | null {
+  const profile = FORMULA_PROFILES[formula];
+  if (!profile) {
+    result.warnings.push(`${source}: timing formula ${formula} is not supported.`);
+    return null;
+  }
+  const cvt = calculateCvtTiming({ hActive: h, vActive: v, refreshHz: hz, reducedBlanking: profile });
+  const rb = profile !== "cvt";
+  return {
+    label: `${timingLabel(h, v, hz)} (${cvt.cvtId})`,
+    source,
+    preferred,
+    h, v, hz,
+    hFront: cvt.hFront, hSync: cvt.hSync, hBack: cvt.hBack,
+    vFront: cvt.vFront, vSync: cvt.vSync, vBack: cvt.vBack,
+    pixelClock: cvt.pixelClockMHz,
+    interlaced: false,
+    hSyncPositive: rb,
+    vSyncPositive: !rb,
+  };
+}
+
+// Type III short descriptor aspect codes (DisplayID 1.3 table 4-12).
+const TYPE_III_ASPECTS = [1, 5 / 4, 4 / 3, 15 / 9, 16 / 9, 16 / 10, 64 / 27, 256 / 135];
+
+function decodeTiledTopology(bytes: Uint8Array, offset: number, source: string): TiledTopology {
+  const high = bytes[offset + 3];
+  return {
+    singleEnclosure: (bytes[offset] & 0x80) !== 0,
+    hTiles: ((bytes[offset + 1] >> 4) | (((high >> 6) & 0x03) << 4)) + 1,
+    vTiles: ((bytes[offset + 1] & 0x0f) | (((high >> 4) & 0x03) << 4)) + 1,
+    hLocation: (bytes[offset + 2] >> 4) | (((high >> 2) & 0x03) << 4),
+    vLocation: (bytes[offset + 2] & 0x0f) | ((high & 0x03) << 4),
+    tileWidth: le16(bytes, offset + 4) + 1,
+    tileHeight: le16(bytes, offset + 6) + 1,
+    source,
+  };
+}
+
+const TYPE_VIII_STANDARDS: Array<TimingCodeRef["standard"]> = ["dmt", "vic", "hdmi_vic"];
+
+function decodeBlock(tag: number, revision: number, bytes: Uint8Array, start: number, length: number, prefix: string, result: DisplayIdResult) {
+  const end = start + length;
+  switch (tag) {
+    case TAG_V1_TYPE_I_DETAILED:
+    case TAG_V2_TYPE_VII_DETAILED: {
+      const type = tag === TAG_V1_TYPE_I_DETAILED ? "Type I" : "Type VII";
+      const size = 20 + (tag === TAG_V2_TYPE_VII_DETAILED ? (revision >> 4) & 0x07 : 0);
+      const unitKHz = tag === TAG_V1_TYPE_I_DETAILED ? 10 : 1;
+      for (let o = start, n = 1; o + 20 <= end; o += size, n += 1) {
+        result.modes.push(decodeDetailed(bytes, o, unitKHz, `${prefix} ${type} ${n}`));
+      }
+      break;
+    }
+    case TAG_V1_TYPE_III_SHORT: {
+      for (let o = start, n = 1; o + 3 <= end; o += 3, n += 1) {
+        const h = (bytes[o + 1] + 1) * 8;
+        const aspect = TYPE_III_ASPECTS[bytes[o] & 0x0f];
+        const v = aspect ? Math.round(h / aspect) : 0;
+        const hz = (bytes[o + 2] & 0x7f) + 1;
+        const mode = v > 0 ? formulaTiming(h, v, hz, (bytes[o] >> 4) & 0x07, `${prefix} Type III ${n}`, result, (bytes[o] & 0x80) !== 0) : null;
+        if (mode) result.modes.push(mode);
+      }
+      break;
+    }
+    case TAG_V2_TYPE_VIII_ENUMERATED: {
+      const standard = TYPE_VIII_STANDARDS[(revision >> 6) & 0x03];
+      const codeSize = (revision & 0x08) !== 0 ? 2 : 1;
+      if (!standard) {
+        result.warnings.push(`${prefix} Type VIII block uses an unknown timing code type.`);
+        break;
+      }
+      for (let o = start; o + codeSize <= end; o += codeSize) {
+        const code = codeSize === 2 ? le16(bytes, o) : bytes[o];
+        result.timingCodes.push({ standard, code, source: `${prefix} Type VIII` });
+      }
+      break;
+    }
+    case TAG_V2_TYPE_IX_FORMULA: {
+      const size = 6 + ((revision >> 4) & 0x07);
+      for (let o = start, n = 1; o + 6 <= end; o += size, n += 1) {
+        const h = le16(bytes, o + 1) + 1;
+        const v = le16(bytes, o + 3) + 1;
+        const hz = bytes[o + 5] + 1;
+        const mode = formulaTiming(h, v, hz, bytes[o] & 0x07, `${prefix} Type IX ${n}`, result);
+        if (mode) result.modes.push(mode);
+      }
+      break;
+    }
+    case TAG_V1_TILED_DISPLAY:
+    case TAG_V2_TILED_DISPLAY:
+      if (length >= 8) result.tiles.push(decodeTiledTopology(bytes, start, `${prefix} tiled display`));
+      break;
+    default:
+      break;
+  }
+}
+
+// Decode one DisplayID section starting at `offset` (the version byte). `prefix` names the container in sources.
+export function decodeDisplayIdSection(bytes: Uint8Array, offset: number, prefix: string): DisplayIdResult {
+  const versionByte = bytes[offset];
+  const result: DisplayIdResult = {
+    version: `${versionByte >> 4}.${versionByte & 0x0f}`,
+    modes: [],
+    timingCodes: [],
+    tiles: [],
+    warnings: [],
+  };
+  if (!displayIdSectionChecksumOk(bytes, offset)) {
+    result.warnings.push(`${prefix}: DisplayID section checksum mismatch.`);
+  }
+  const dataEnd = offset + SECTION_HEADER_SIZE + bytes[offset + 1];
+  let cursor = offset + SECTION_HEADER_SIZE;
+  while (cursor + 3 <= dataEnd) {
+    const tag = bytes[cursor];
+    const revision = bytes[cursor + 1];
+    const length = bytes[cursor + 2];
+    // Zero padding fills the rest of the section.
+    if (tag === 0 && revision === 0 && length === 0) break;
+    if (cursor + 3 + length > dataEnd) {
+      result.warnings.push(`${prefix}: data block 0x${tag.toString(16)} overruns the section.`);
+      break;
+    }
+    decodeBlock(tag, revision, bytes, cursor + 3, length, prefix, result);
+    cursor += 3 + length;
+  }
+  return result;
+}
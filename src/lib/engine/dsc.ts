@@ -0,0 +1,106 @@
+// VESA DSC 1.2 configuration: target bits per pixel, slices, line buffer and sink throughput.
+
+// Slices per line a DSC encoder may use.
+export const DSC_SLICE_COUNTS = [1, 2, 4, 6, 8, 10, 12, 16, 20, 24] as const;
+// Per-slice peak throughput values a DP sink can advertise (MP/s).
+export const DSC_SLICE_THROUGHPUTS = [340, 400, 450, 500, 550, 600, 650, 700, 750, 800, 850, 900, 950, 1000] as const;
+
+// Chroma sampling the encoder runs in; 4:2:2 and 4:2:0 use the DSC 1.2 native modes.
+export type DscSampling = "444" | "422" | "420";
+
+export const DSC_BPP_STEP = 1 / 16;
+// Lowest target bpp a sink must accept per sampling (DP 2.0 mandatory bit rate range); the highest is
+// one bit below the uncompressed rate.
+export const DSC_MIN_BPP: Record<DscSampling, number> = { "444": 8, "422": 7, "420": 6 };
+export const DSC_MAX_BPP_MARGIN = 1;
+// Component depths a DSC decoder can be fed.
+export const DSC_BPCS = [8, 10, 12] as const;
+export const DSC_DEFAULT_SLICE_THROUGHPUT = 340;
+export const DSC_DEFAULT_MAX_SLICE_WIDTH = 2560;
+export const DSC_LINE_BUFFER_DEPTHS = [8, 9, 10, 11, 12, 13, 14, 15, 16] as const;
+
+export interface DscConfig {
+  // Compressed bits per pixel in 1/16 steps.
+  targetBpp: number;
+  // Defaults to 4:4:4 (RGB or YCbCr 4:4:4).
+  sampling?: DscSampling;
+  // Slices per line; picked automatically when omitted.
+  sliceCount?: number;
+  // Line buffer bit depth; bpc + 1 when omitted.
+  lineBufferDepth?: number;
+  // Sink's peak throughput per slice (MP/s).
+  sliceThroughputMps?: number;
+  maxSliceWidth?: number;
+}
+
+export interface DscEvaluation {
+  targetBpp: number;
+  sampling: DscSampling;
+  // bits_per_pixel as written to the PPS: native 4:2:x modes code it at twice the stream rate.
+  ppsBpp: number;
+  minBpp: number;
+  maxBpp: number;
+  sliceCount: number;
+  sliceWidth: number;
+  lineBufferDepth: number;
+  sliceThroughputMps: number;
+  // Rate each slice encoder/decoder has to sustain; native 4:2:x codes two pixels per cycle.
+  requiredSliceRateMps: number;
+  compressedGbps: number;
+  ratio: number;
+  errors: string[];
+}
+
+// Smallest slice count that meets both the slice-width and the per-slice throughput limit.
+export function minimumSliceCount(hActive: number, pixelClockMHz: number, sliceThroughputMps: number, maxSliceWidth: number) {
+  return DSC_SLICE_COUNTS.find((count) =>
+    Math.ceil(hActive / count) <= maxSliceWidth && pixelClockMHz / count <= sliceThroughputMps + 1e-9,
+  ) ?? DSC_SLICE_COUNTS[DSC_SLICE_COUNTS.length - 1];
+}
+
+export function evaluateDsc(hActive: number, pixelClockMHz: number, bpc: number, uncompressedBpp: number, config: DscConfig): DscEvaluation {
+  const sliceThroughputMps = config.sliceThroughputMps && config.sliceThroughputMps > 0 ? config.sliceThroughputMps : DSC_DEFAULT_SLICE_THROUGHPUT;
+  const maxSliceWidth = config.maxSliceWidth && config.maxSliceWidth > 0 ? config.maxSliceWidth : DSC_DEFAULT_MAX_SLICE_WIDTH;
+  const sliceCount = config.sliceCount && config.sliceCount > 0
+    ? config.sliceCount
+    : minimumSliceCount(hActive, pixelClockMHz, sliceThroughputMps, maxSliceWidth);
+  const lineBufferDepth = config.lineBufferDepth && config.lineBufferDepth > 0 ? config.lineBufferDepth : Math.min(16, bpc + 1);
+  const targetBpp = config.targetBpp;
+  const sampling = config.sampling ?? "444";
+  const native = sampling !== "444";
+  const minBpp = DSC_MIN_BPP[sampling];
+  const maxBpp = uncompressedBpp - DSC_MAX_BPP_MARGIN;
+  const sliceWidth = Math.ceil(hActive / sliceCount);
+  const requiredSliceRateMps = pixelClockMHz / sliceCount / (native ? 2 : 1);
+
+  const errors: string[] = [];
+  if (!(targetBpp > 0) || Math.abs(targetBpp / DSC_BPP_STEP - Math.round(targetBpp / DSC_BPP_STEP)) > 1e-6) {
+    errors.push(`Target ${targetBpp} bpp is not a multiple of 1/16.`);
+  }
+  if (!DSC_BPCS.includes(bpc as (typeof DSC_BPCS)[number])) errors.push(`DSC does not accept ${bpc} bpc input (${DSC_BPCS.join(", ")} only).`);
+  if (targetBpp < minBpp) errors.push(`Target ${targetBpp} bpp is below the ${minBpp} bpp minimum for 4:${sampling.slice(1, 2)}:${sampling.slice(2)}.`);
+  if (targetBpp > maxBpp) errors.push(`Target ${targetBpp} bpp exceeds ${maxBpp} bpp, one bit below the ${uncompressedBpp} bpp source.`);
+  if (!DSC_SLICE_COUNTS.includes(sliceCount as (typeof DSC_SLICE_COUNTS)[number])) errors.push(`${sliceCount} slices per line is not a DSC slice count.`);
+  if (sliceWidth > maxSliceWidth) errors.push(`Slice width ${sliceWidth} px exceeds the ${maxSliceWidth} px maximum.`);
+  if (requiredSliceRateMps > sliceThroughputMps + 1e-9) {
+    errors.push(`${sliceCount} slice(s) need ${requiredSliceRateMps.toFixed(1)} MP/s each; the sink handles ${sliceThroughputMps} MP/s per slice.`);
+  }
+  if (lineBufferDepth < 8 || lineBufferDepth > 16) errors.push(`Line buffer depth ${lineBufferDepth} is outside 8–16 bits.`);
+  else if (lineBufferDepth < bpc) errors.push(`Line buffer depth ${lineBufferDepth} is shallower than ${bpc} bpc.`);
+
+  return {
+    targetBpp,
+    sampling,
+    ppsBpp: native ? targetBpp * 2 : targetBpp,
+    minBpp,
+    maxBpp,
+    sliceCount,
+    sliceWidth,
+    lineBufferDepth,
+    sliceThroughputMps,
+    requiredSliceRateMps,
+    compressedGbps: (pixelClockMHz * targetBpp) / 1000,
+    ratio: targetBpp > 0 ? uncompressedBpp / targetBpp : 0,
+    errors,
+  };
+}
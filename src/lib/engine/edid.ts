@@ -0,0 +1,306 @@
+// EDID 1.3/1.4 decoding: base block DTDs and standard timings, CTA-861 extension DTDs and
+// DisplayID extensions. Standalone DisplayID sections are accepted as well.
+import { calculateCvtTiming, calculateGtfTiming, cvtSyncPolarity, GTF_SYNC_POLARITY } from "./cvt";
+import {
+  decodeDisplayIdSection,
+  displayIdSectionChecksumOk,
+  EXT_TAG_DISPLAYID,
+  isDisplayIdSection,
+  type DisplayIdResult,
+  type TiledTopology,
+  type TimingCodeRef,
+} from "./displayid";
+import { findDmt, findDmtMode, findVic, HDMI_VIC_TO_VIC } from "./standardTimings";
+import { timingLabel, type DetailedTiming } from "./timing";
+
+export const EDID_BLOCK_SIZE = 128;
+const EDID_HEADER = [0x00, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x00];
+
+export const EXT_TAG_CTA = 0x02;
+export const EXT_TAG_BLOCK_MAP = 0xf0;
+
+export class EdidParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EdidParseError";
+  }
+}
+
+export interface EdidInfo {
+  manufacturer: string;
+  productCode: number;
+  version: string;
+  monitorName?: string;
+  extensionCount: number;
+  displayIdVersion?: string;
+  modes: DetailedTiming[];
+  // CTA Video Data Block VICs and DisplayID Type VIII codes; resolved ones are also listed in `modes`.
+  timingCodes: TimingCodeRef[];
+  tiles: TiledTopology[];
+  warnings: string[];
+}
+
+function isHeader(bytes: Uint8Array, offset = 0) {
+  return EDID_HEADER.every((value, i) => bytes[offset + i] === value);
+}
+
+// Hex dump → bytes. Accepts `edid-decode` hex output, `xrandr --verbose` EDID blocks and plain hex,
+// skipping offsets ("00000010:") and any surrounding decoded text.
+export function hexDumpToBytes(text: string): Uint8Array {
+  const hex = text
+    .split(/\s+/)
+    .map((token) => token.replace(/^0x/i, "").replace(/,$/, ""))
+    .filter((token) => token.length > 0 && token.length % 2 === 0 && /^[0-9a-f]+$/i.test(token))
+    .join("");
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i += 1) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+interface DisplayData {
+  kind: "edid" | "displayid";
+  bytes: Uint8Array;
+}
+
+// Raw file contents (binary or text) → EDID bytes starting at the header, or a standalone DisplayID section.
+export function displayDataFromInput(input: Uint8Array | string): DisplayData {
+  if (typeof input !== "string" && isHeader(input)) return { kind: "edid", bytes: input };
+  const text = typeof input === "string" ? input : new TextDecoder("latin1").decode(input);
+  const bytes = hexDumpToBytes(text);
+  // A binary DisplayID section starts with its version byte; prefer it unless the file reads as a hex dump.
+  if (typeof input !== "string" && isDisplayIdSection(input) && (displayIdSectionChecksumOk(input, 0) || bytes.length < 5)) {
+    return { kind: "displayid", bytes: input };
+  }
+  for (let offset = 0; offset + EDID_HEADER.length <= bytes.length; offset += 1) {
+    if (isHeader(bytes, offset)) return { kind: "edid", bytes: bytes.slice(offset) };
+  }
+  if (isDisplayIdSection(bytes) && bytes.length >= 5) return { kind: "displayid", bytes };
+  const found = Math.max(bytes.length, typeof input === "string" ? 0 : input.length);
+  if (found < EDID_BLOCK_SIZE) {
+    throw new EdidParseError(`Expected at least ${EDID_BLOCK_SIZE} bytes of EDID data, found ${found}.`);
+  }
+  throw new EdidParseError("EDID header 00 FF FF FF FF FF FF 00 not found.");
+}
+
+export function blockChecksumOk(bytes: Uint8Array, offset: number) {
+  let sum = 0;
+  for (let i = 0; i < EDID_BLOCK_SIZE; i += 1) sum += bytes[offset + i];
+  return (sum & 0xff) === 0;
+}
+
+// 18-byte Detailed Timing Descriptor. Returns null for display descriptors (pixel clock 0).
+export function decodeDtd(bytes: Uint8Array, offset: number, source: string): DetailedTiming | null {
+  const b = (i: number) => bytes[offset + i];
+  const clock10kHz = b(0) | (b(1) << 8);
+  if (clock10kHz === 0) return null;
+
+  const hActive = b(2) | ((b(4) >> 4) << 8);
+  const hBlank = b(3) | ((b(4) & 0x0f) << 8);
+  const vActive = b(5) | ((b(7) >> 4) << 8);
+  const vBlank = b(6) | ((b(7) & 0x0f) << 8);
+  const hFront = b(8) | (((b(11) >> 6) & 0x03) << 8);
+  const hSync = b(9) | (((b(11) >> 4) & 0x03) << 8);
+  const vFront = (b(10) >> 4) | (((b(11) >> 2) & 0x03) << 4);
+  const vSync = (b(10) & 0x0f) | ((b(11) & 0x03) << 4);
+  const flags = b(17);
+  const interlaced = (flags & 0x80) !== 0;
+  const digitalSeparate = ((flags >> 3) & 0x03) === 0x03;
+
+  const pixelClock = clock10kHz / 100;
+  const hTotal = hActive + hBlank;
+  const vTotal = vActive + vBlank;
+  // Interlaced DTDs describe one field; report frame lines and frame rate (two fields plus the half lines).
+  const hz = (pixelClock * 1e6) / (hTotal * (interlaced ? vTotal * 2 + 1 : vTotal));
+  const v = interlaced ? vActive * 2 : vActive;
+
+  return {
+    label: timingLabel(hActive, v, hz, interlaced),
+    source,
+    h: hActive, v, hz,
+    hFront, hSync, hBack: hBlank - hFront - hSync,
+    vFront, vSync, vBack: vBlank - vFront - vSync,
+    pixelClock,
+    interlaced,
+    hSyncPositive: digitalSeparate ? (flags & 0x02) !== 0 : undefined,
+    vSyncPositive: digitalSeparate ? (flags & 0x04) !== 0 : undefined,
+  };
+}
+
+// Standard timing aspect codes (EDID 1.3+: 00 = 16:10).
+const STD_ASPECTS = [16 / 10, 4 / 3, 5 / 4, 16 / 9];
+
+// Standard timings carry no blanking: a VESA DMT mode uses its DMT timing, anything else the CVT
+// formula (EDID 1.4) or GTF (EDID 1.3 and earlier).
+function decodeStandardTiming(b1: number, b2: number, index: number, gtf: boolean): DetailedTiming | null {
+  if ((b1 === 0x01 && b2 === 0x01) || b1 === 0x00) return null;
+  const h = (b1 + 31) * 8;
+  const v = Math.round(h / STD_ASPECTS[(b2 >> 6) & 0x03]);
+  const hz = (b2 & 0x3f) + 60;
+  const source = `Standard timing ${index + 1}`;
+  const dmt = findDmtMode(h, v, hz);
+  if (dmt) return { ...dmt, source: `${source} · ${dmt.source}` };
+  const formula = gtf ? calculateGtfTiming({ hActive: h, vActive: v, refreshHz: hz }) : calculateCvtTiming({ hActive: h, vActive: v, refreshHz: hz, reducedBlanking: "cvt" });
+  return {
+    label: `${timingLabel(h, v, hz)} (${gtf ? "GTF" : "CVT"})`,
+    source,
+    h, v, hz,
+    hFront: formula.hFront, hSync: formula.hSync, hBack: formula.hBack,
+    vFront: formula.vFront, vSync: formula.vSync, vBack: formula.vBack,
+    pixelClock: formula.pixelClockMHz,
+    interlaced: false,
+    ...(gtf ? GTF_SYNC_POLARITY : cvtSyncPolarity("cvt")),
+  };
+}
+
+function decodeManufacturer(bytes: Uint8Array) {
+  const word = (bytes[8] << 8) | bytes[9];
+  return [10, 5, 0].map((shift) => String.fromCharCode(((word >> shift) & 0x1f) + 64)).join("");
+}
+
+function decodeDescriptorText(bytes: Uint8Array, offset: number) {
+  return String.fromCharCode(...bytes.slice(offset + 5, offset + 18)).split("\n")[0].trim();
+}
+
+const CTA_TAG_VIDEO = 2;
+
+// Short Video Descriptors: VICs 1–64 may carry the native flag in bit 7, VICs 193+ use all 8 bits.
+function svdVic(svd: number) {
+  return svd >= 129 && svd <= 192 ? svd & 0x7f : svd;
+}
+
+function decodeCtaBlock(bytes: Uint8Array, offset: number, blockIndex: number, info: EdidInfo): DetailedTiming[] {
+  const dtdStart = bytes[offset + 2];
+  if (dtdStart < 4) return [];
+  for (let cursor = offset + 4; cursor < offset + dtdStart;) {
+    const tag = bytes[cursor] >> 5;
+    const length = bytes[cursor] & 0x1f;
+    if (tag === CTA_TAG_VIDEO) {
+      for (let i = 1; i <= length; i += 1) {
+        const vic = svdVic(bytes[cursor + i]);
+        if (vic) info.timingCodes.push({ standard: "vic", code: vic, source: `CTA-861 block ${blockIndex} VDB` });
+      }
+    }
+    cursor += 1 + length;
+  }
+  const modes: DetailedTiming[] = [];
+  for (let d = dtdStart; d + 18 <= EDID_BLOCK_SIZE - 1; d += 18) {
+    const mode = decodeDtd(bytes, offset + d, `CTA-861 block ${blockIndex} DTD ${modes.length + 1}`);
+    if (!mode) break;
+    modes.push(mode);
+  }
+  return modes;
+}
+
+function mergeDisplayId(info: EdidInfo, result: DisplayIdResult) {
+  info.displayIdVersion ??= result.version;
+  info.modes.push(...result.modes);
+  info.timingCodes.push(...result.timingCodes);
+  info.tiles.push(...result.tiles);
+  info.warnings.push(...result.warnings);
+}
+
+// Expand VIC / DMT references into modes from the standard timing tables.
+function resolveTimingCodes(info: EdidInfo) {
+  const unresolved: string[] = [];
+  for (const ref of info.timingCodes) {
+    const timing = ref.standard === "dmt"
+      ? findDmt(ref.code)
+      : findVic(ref.standard === "hdmi_vic" ? HDMI_VIC_TO_VIC[ref.code] : ref.code);
+    if (timing) {
+      info.modes.push({ ...timing, source: `${ref.source} · ${timing.source}` });
+    } else {
+      unresolved.push(`${ref.standard === "dmt" ? "DMT" : ref.standard === "vic" ? "VIC" : "HDMI VIC"} ${ref.code}`);
+    }
+  }
+  if (unresolved.length) {
+    info.warnings.push(`Timing codes not in the built-in tables: ${unresolved.join(", ")}.`);
+  }
+}
+
+function parseStandaloneDisplayId(bytes: Uint8Array): EdidInfo {
+  if (!displayIdSectionChecksumOk(bytes, 0)) {
+    throw new EdidParseError("DisplayID section checksum mismatch (bytes do not sum to 0 mod 256).");
+  }
+  const info: EdidInfo = {
+    manufacturer: "",
+    productCode: 0,
+    version: "",
+    extensionCount: bytes[3],
+    modes: [],
+    timingCodes: [],
+    tiles: [],
+    warnings: [],
+  };
+  let offset = 0;
+  for (let section = 0; section <= info.extensionCount; section += 1) {
+    if (!isDisplayIdSection(bytes, offset) || offset + 5 + bytes[offset + 1] > bytes.length) {
+      info.warnings.push(`DisplayID declares ${info.extensionCount} extension section(s) but only ${section} present.`);
+      break;
+    }
+    mergeDisplayId(info, decodeDisplayIdSection(bytes, offset, `DisplayID section ${section + 1}`));
+    offset += 5 + bytes[offset + 1];
+  }
+  info.version = `DisplayID ${info.displayIdVersion}`;
+  resolveTimingCodes(info);
+  return info;
+}
+
+export function parseEdid(input: Uint8Array | string): EdidInfo {
+  const { kind, bytes } = displayDataFromInput(input);
+  if (kind === "displayid") return parseStandaloneDisplayId(bytes);
+  if (bytes.length < EDID_BLOCK_SIZE) {
+    throw new EdidParseError(`EDID base block is truncated: ${bytes.length} of ${EDID_BLOCK_SIZE} bytes.`);
+  }
+  if (!blockChecksumOk(bytes, 0)) {
+    throw new EdidParseError("EDID base block checksum mismatch (bytes do not sum to 0 mod 256).");
+  }
+
+  const info: EdidInfo = {
+    manufacturer: decodeManufacturer(bytes),
+    productCode: bytes[10] | (bytes[11] << 8),
+    version: `${bytes[18]}.${bytes[19]}`,
+    extensionCount: bytes[126],
+    modes: [],
+    timingCodes: [],
+    tiles: [],
+    warnings: [],
+  };
+
+  for (let i = 0; i < 4; i += 1) {
+    const offset = 54 + i * 18;
+    const mode = decodeDtd(bytes, offset, `EDID DTD ${i + 1}`);
+    if (mode) {
+      // The first DTD is the preferred timing.
+      info.modes.push(i === 0 ? { ...mode, preferred: true } : mode);
+    } else if (bytes[offset + 3] === 0xfc) {
+      info.monitorName = decodeDescriptorText(bytes, offset);
+    }
+  }
+
+  for (let i = 0; i < 8; i += 1) {
+    const mode = decodeStandardTiming(bytes[38 + i * 2], bytes[39 + i * 2], i, bytes[18] === 1 && bytes[19] < 4);
+    if (mode) info.modes.push(mode);
+  }
+
+  for (let block = 1; block <= info.extensionCount; block += 1) {
+    const offset = block * EDID_BLOCK_SIZE;
+    if (offset + EDID_BLOCK_SIZE > bytes.length) {
+      info.warnings.push(`EDID declares ${info.extensionCount} extension block(s) but only ${block - 1} present.`);
+      break;
+    }
+    if (!blockChecksumOk(bytes, offset)) {
+      throw new EdidParseError(`Extension block ${block} checksum mismatch.`);
+    }
+    const tag = bytes[offset];
+    if (tag === EXT_TAG_CTA) {
+      info.modes.push(...decodeCtaBlock(bytes, offset, block, info));
+    } else if (tag === EXT_TAG_DISPLAYID) {
+      mergeDisplayId(info, decodeDisplayIdSection(bytes, offset + 1, `DisplayID block ${block}`));
+    } else if (tag !== EXT_TAG_BLOCK_MAP) {
+      info.warnings.push(`Extension block ${block} (tag 0x${tag.toString(16).padStart(2, "0")}) is not decoded.`);
+    }
+  }
+
+  resolveTimingCodes(info);
+  return info;
+}
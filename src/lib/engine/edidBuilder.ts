@@ -0,0 +1,310 @@
+// EDID 1.4 generation from configured timings: the first timing as the preferred DTD, a range limits
+// and a monitor name descriptor, and one extension block (CTA-861 DTDs, or DisplayID 2.0 Type VII
+// timings for modes a DTD cannot describe).
+import { EDID_BLOCK_SIZE, EXT_TAG_CTA } from "./edid";
+import { EXT_TAG_DISPLAYID } from "./displayid";
+import type { ModeTiming } from "./modeline";
+
+export interface EdidBuildOptions {
+  // Up to 13 printable ASCII characters.
+  monitorName?: string;
+  // Three-letter PNP ID.
+  manufacturerId?: string;
+  productCode?: number;
+  serialNumber?: number;
+  year?: number;
+  // Digital interface bit depth; 0 leaves it undefined.
+  bpc?: number;
+  // Advertise YCbCr 4:4:4 and 4:2:2 next to RGB.
+  ycbcr?: boolean;
+}
+
+export const DEFAULT_EDID_BUILD_OPTIONS = { monitorName: "DP Bandwidth", manufacturerId: "XXX", productCode: 1, serialNumber: 0, bpc: 8 };
+
+// Where each input timing ended up.
+export type EdidTimingPlacement = "base" | "cta" | "displayid" | "omitted";
+
+export interface EdidBuildResult {
+  bytes: Uint8Array;
+  placements: EdidTimingPlacement[];
+  warnings: string[];
+}
+
+const DESCRIPTOR_SIZE = 18;
+const BASE_DESCRIPTORS_OFFSET = 54;
+// Two of the four base descriptors carry the range limits and the monitor name.
+const BASE_DTD_SLOTS = 2;
+const CTA_DTD_SLOTS = Math.floor((EDID_BLOCK_SIZE - 4 - 1) / DESCRIPTOR_SIZE);
+const TYPE_VII_SIZE = 20;
+// Extension tag, section header, section checksum and block checksum around 3 + 20n block bytes.
+const DISPLAYID_TIMING_SLOTS = Math.floor((EDID_BLOCK_SIZE - 1 - 4 - 1 - 1 - 3) / TYPE_VII_SIZE);
+const TAG_V2_TYPE_VII_DETAILED = 0x22;
+const DISPLAYID_VERSION_2_0 = 0x20;
+
+const DESCRIPTOR_MONITOR_NAME = 0xfc;
+const DESCRIPTOR_RANGE_LIMITS = 0xfd;
+const DESCRIPTOR_DUMMY = 0x10;
+const MONITOR_NAME_LENGTH = 13;
+
+// Digital input bit depth codes (EDID 1.4 byte 20, bits 6:4) and the DisplayPort interface code.
+const BIT_DEPTH_CODES: Record<number, number> = { 6: 1, 8: 2, 10: 3, 12: 4, 14: 5, 16: 6 };
+const INTERFACE_DISPLAYPORT = 0x05;
+
+// sRGB primaries and D65 white point, matching the sRGB default colour space flag.
+const SRGB_CHROMATICITY = { rx: 0.64, ry: 0.33, gx: 0.3, gy: 0.6, bx: 0.15, by: 0.06, wx: 0.3127, wy: 0.329 };
+
+// Per-field edges of a mode, as DTDs and DisplayID timings store interlaced timings.
+interface FieldTiming {
+  pixelClockMHz: number;
+  h: number; hBlank: number; hFront: number; hSync: number;
+  v: number; vBlank: number; vFront: number; vSync: number;
+  hSyncPositive: boolean;
+  vSyncPositive: boolean;
+  interlaced: boolean;
+}
+
+function fieldTiming(m: ModeTiming): FieldTiming {
+  const lines = m.interlaced ? 2 : 1;
+  return {
+    pixelClockMHz: m.pixelClockMHz,
+    h: m.h, hBlank: m.hTotal - m.h, hFront: m.hSyncStart - m.h, hSync: m.hSyncEnd - m.hSyncStart,
+    // Interlaced frame totals carry an extra half line per field.
+    v: Math.round(m.v / lines),
+    vBlank: Math.round((m.vTotal - m.v - (m.interlaced ? 1 : 0)) / lines),
+    vFront: Math.round((m.vSyncStart - m.v) / lines),
+    vSync: Math.round((m.vSyncEnd - m.vSyncStart) / lines),
+    hSyncPositive: m.hSyncPositive,
+    vSyncPositive: m.vSyncPositive,
+    interlaced: m.interlaced,
+  };
+}
+
+// DTD fields: 16-bit clock in 10 kHz units, 12-bit active and blanking, 10-bit horizontal and 6-bit
+// vertical porch and sync.
+export function fitsDtd(m: ModeTiming) {
+  const f = fieldTiming(m);
+  const clock = Math.round(f.pixelClockMHz * 100);
+  return clock > 0 && clock <= 0xffff
+    && f.h <= 0xfff && f.hBlank <= 0xfff && f.v <= 0xfff && f.vBlank <= 0xfff
+    && f.hFront <= 0x3ff && f.hSync <= 0x3ff && f.vFront <= 0x3f && f.vSync <= 0x3f;
+}
+
+// Type VII fields: 24-bit clock in 1 kHz units and 16-bit edges, stored minus one.
+function fitsTypeVii(m: ModeTiming) {
+  const f = fieldTiming(m);
+  const clock = Math.round(f.pixelClockMHz * 1000);
+  return clock > 0 && clock <= 0x1000000
+    && [f.h, f.hBlank, f.hSync, f.v, f.vBlank, f.vSync].every((n) => n >= 1 && n <= 0x10000)
+    && f.hFront >= 1 && f.hFront <= 0x8000 && f.vFront >= 1 && f.vFront <= 0x8000;
+}
+
+export function encodeDtd(m: ModeTiming): Uint8Array {
+  const f = fieldTiming(m);
+  const clock = Math.round(f.pixelClockMHz * 100);
+  const flags = (f.interlaced ? 0x80 : 0) | 0x18 | (f.vSyncPositive ? 0x04 : 0) | (f.hSyncPositive ? 0x02 : 0);
+  return Uint8Array.from([
+    clock & 0xff, clock >> 8,
+    f.h & 0xff, f.hBlank & 0xff, ((f.h >> 8) << 4) | (f.hBlank >> 8),
+    f.v & 0xff, f.vBlank & 0xff, ((f.v >> 8) << 4) | (f.vBlank >> 8),
+    f.hFront & 0xff, f.hSync & 0xff, ((f.vFront & 0x0f) << 4) | (f.vSync & 0x0f),
+    ((f.hFront >> 8) << 6) | ((f.hSync >> 8) << 4) | ((f.vFront >> 4) << 2) | (f.vSync >> 4),
+    // Image size in mm is left unknown.
+    0, 0, 0,
+    0, 0,
+    flags,
+  ]);
+}
+
+// 20-byte DisplayID 2.0 Type VII descriptor; aspect code 8 derives the ratio from the active pixels.
+function encodeTypeVii(m: ModeTiming, preferred: boolean): Uint8Array {
+  const f = fieldTiming(m);
+  const clock = Math.round(f.pixelClockMHz * 1000) - 1;
+  const le16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+  return Uint8Array.from([
+    clock & 0xff, (clock >> 8) & 0xff, (clock >> 16) & 0xff,
+    (preferred ? 0x80 : 0) | (f.interlaced ? 0x10 : 0) | 0x08,
+    ...le16(f.h - 1), ...le16(f.hBlank - 1),
+    ...le16((f.hFront - 1) | (f.hSyncPositive ? 0x8000 : 0)), ...le16(f.hSync - 1),
+    ...le16(f.v - 1), ...le16(f.vBlank - 1),
+    ...le16((f.vFront - 1) | (f.vSyncPositive ? 0x8000 : 0)), ...le16(f.vSync - 1),
+  ]);
+}
+
+function checksum(bytes: Uint8Array, start: number, end: number) {
+  let sum = 0;
+  for (let i = start; i < end; i += 1) sum += bytes[i];
+  return (256 - (sum & 0xff)) & 0xff;
+}
+
+function sealBlock(block: Uint8Array) {
+  block[EDID_BLOCK_SIZE - 1] = checksum(block, 0, EDID_BLOCK_SIZE - 1);
+  return block;
+}
+
+function encodeManufacturer(id: string) {
+  const letters = id.split("").map((c) => c.charCodeAt(0) - 64);
+  const code = (letters[0] << 10) | (letters[1] << 5) | letters[2];
+  return [code >> 8, code & 0xff];
+}
+
+function encodeChromaticity() {
+  const c = SRGB_CHROMATICITY;
+  const [rx, ry, gx, gy, bx, by, wx, wy] = [c.rx, c.ry, c.gx, c.gy, c.bx, c.by, c.wx, c.wy].map((n) => Math.round(n * 1024));
+  const low = (a: number, b: number, c2: number, d: number) => ((a & 3) << 6) | ((b & 3) << 4) | ((c2 & 3) << 2) | (d & 3);
+  return [low(rx, ry, gx, gy), low(bx, by, wx, wy), ...[rx, ry, gx, gy, bx, by, wx, wy].map((n) => n >> 2)];
+}
+
+function textDescriptor(tag: number, text: string) {
+  const descriptor = new Uint8Array(DESCRIPTOR_SIZE);
+  descriptor[3] = tag;
+  const chars = Array.from(text, (c) => c.charCodeAt(0));
+  for (let i = 0; i < MONITOR_NAME_LENGTH; i += 1) {
+    descriptor[5 + i] = i < chars.length ? chars[i] : i === chars.length ? 0x0a : 0x20;
+  }
+  return descriptor;
+}
+
+// Field rate and line rate bounds over every timing, with the +255 offsets EDID 1.4 allows for
+// rates above 255; the pixel clock is rounded up to 10 MHz. Only the listed timings are supported.
+function rangeLimitsDescriptor(modes: ModeTiming[]) {
+  const hz = modes.map((m) => m.refreshHz);
+  const khz = modes.map((m) => (m.pixelClockMHz * 1000) / m.hTotal);
+  const bounds = (values: number[]) => {
+    const min = Math.min(510, Math.max(1, Math.floor(Math.min(...values))));
+    const max = Math.min(510, Math.max(min, Math.ceil(Math.max(...values))));
+    // The min offset is only valid together with the max offset.
+    const flags = max > 255 ? (min > 255 ? 0x03 : 0x02) : 0;
+    return { flags, min: min > 255 ? min - 255 : min, max: max > 255 ? max - 255 : max };
+  };
+  const v = bounds(hz);
+  const h = bounds(khz);
+  const maxClock = Math.min(255, Math.ceil(Math.max(...modes.map((m) => m.pixelClockMHz)) / 10));
+  const descriptor = new Uint8Array(DESCRIPTOR_SIZE);
+  descriptor.set([0, 0, 0, DESCRIPTOR_RANGE_LIMITS, v.flags | (h.flags << 2), v.min, v.max, h.min, h.max, maxClock, 0x01, 0x0a, 0x20, 0x20, 0x20, 0x20, 0x20, 0x20]);
+  return descriptor;
+}
+
+function dummyDescriptor() {
+  const descriptor = new Uint8Array(DESCRIPTOR_SIZE);
+  descriptor[3] = DESCRIPTOR_DUMMY;
+  return descriptor;
+}
+
+function ctaBlock(modes: ModeTiming[], ycbcr: boolean) {
+  const block = new Uint8Array(EDID_BLOCK_SIZE);
+  // Revision 3 with no data blocks: DTDs start right after the header.
+  block.set([EXT_TAG_CTA, 0x03, 0x04, ycbcr ? 0x30 : 0x00]);
+  modes.forEach((m, i) => block.set(encodeDtd(m), 4 + i * DESCRIPTOR_SIZE));
+  return sealBlock(block);
+}
+
+function displayIdBlock(modes: ModeTiming[], preferred: boolean[]) {
+  const block = new Uint8Array(EDID_BLOCK_SIZE);
+  const payload = 3 + modes.length * TYPE_VII_SIZE;
+  // Section: version, payload length, primary use case (same as the base EDID), extension count.
+  block.set([EXT_TAG_DISPLAYID, DISPLAYID_VERSION_2_0, payload, 0x00, 0x00, TAG_V2_TYPE_VII_DETAILED, 0x00, modes.length * TYPE_VII_SIZE]);
+  modes.forEach((m, i) => block.set(encodeTypeVii(m, preferred[i]), 8 + i * TYPE_VII_SIZE));
+  const sectionEnd = 1 + 4 + payload;
+  block[sectionEnd] = checksum(block, 1, sectionEnd);
+  return sealBlock(block);
+}
+
+function sanitizeName(name: string) {
+  return Array.from(name).filter((c) => c >= " " && c <= "~").join("").trim();
+}
+
+// Up to two DTDs go in the base block. Any timing beyond DTD limits moves the rest into a DisplayID
+// extension; otherwise they follow as CTA-861 DTDs. Timings that do not fit the one extension
+// block are dropped with a warning.
+export function buildEdid(modes: ModeTiming[], options: EdidBuildOptions = {}): EdidBuildResult {
+  const warnings: string[] = [];
+  const placements: EdidTimingPlacement[] = modes.map(() => "omitted");
+  if (!modes.length) throw new Error("At least one timing is needed to build an EDID.");
+
+  const rawName = sanitizeName(options.monitorName ?? DEFAULT_EDID_BUILD_OPTIONS.monitorName);
+  const name = rawName.slice(0, MONITOR_NAME_LENGTH);
+  if (rawName.length > MONITOR_NAME_LENGTH) warnings.push(`Monitor name truncated to "${name}" (13 characters).`);
+
+  let manufacturerId = (options.manufacturerId ?? DEFAULT_EDID_BUILD_OPTIONS.manufacturerId).trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(manufacturerId)) {
+    warnings.push(`Manufacturer ID "${manufacturerId}" is not three letters; using ${DEFAULT_EDID_BUILD_OPTIONS.manufacturerId}.`);
+    manufacturerId = DEFAULT_EDID_BUILD_OPTIONS.manufacturerId;
+  }
+
+  const dtdCapable = modes.map(fitsDtd);
+  const baseIndices = modes.map((_, i) => i).filter((i) => dtdCapable[i]).slice(0, BASE_DTD_SLOTS);
+  baseIndices.forEach((i) => { placements[i] = "base"; });
+  if (!dtdCapable[0]) {
+    warnings.push(baseIndices.length
+      ? `${modes[0].name} exceeds DTD limits; it is the preferred DisplayID timing and ${modes[baseIndices[0]].name} is the base block's first DTD.`
+      : `${modes[0].name} exceeds DTD limits and no timing fits a DTD; the base block has no preferred DTD.`);
+  }
+
+  const rest = modes.map((_, i) => i).filter((i) => placements[i] !== "base");
+  const useDisplayId = rest.some((i) => !dtdCapable[i]);
+  const slots = useDisplayId ? DISPLAYID_TIMING_SLOTS : CTA_DTD_SLOTS;
+  const extensionIndices: number[] = [];
+  for (const i of rest) {
+    if (useDisplayId && !fitsTypeVii(modes[i])) {
+      warnings.push(`${modes[i].name} exceeds DisplayID Type VII limits and was left out.`);
+    } else if (extensionIndices.length >= slots) {
+      warnings.push(`${modes[i].name} was left out: the ${useDisplayId ? "DisplayID" : "CTA-861"} extension holds ${slots} timings.`);
+    } else {
+      extensionIndices.push(i);
+      placements[i] = useDisplayId ? "displayid" : "cta";
+    }
+  }
+
+  const included = modes.filter((_, i) => placements[i] !== "omitted");
+  const base = new Uint8Array(EDID_BLOCK_SIZE);
+  const bitDepth = BIT_DEPTH_CODES[options.bpc ?? DEFAULT_EDID_BUILD_OPTIONS.bpc] ?? 0;
+  const year = options.year ?? new Date().getFullYear();
+  const serial = options.serialNumber ?? DEFAULT_EDID_BUILD_OPTIONS.serialNumber;
+  const productCode = options.productCode ?? DEFAULT_EDID_BUILD_OPTIONS.productCode;
+  base.set([0x00, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x00]);
+  base.set([
+    ...encodeManufacturer(manufacturerId),
+    productCode & 0xff, (productCode >> 8) & 0xff,
+    serial & 0xff, (serial >> 8) & 0xff, (serial >> 16) & 0xff, (serial >>> 24) & 0xff,
+    // Week unspecified, year since 1990, EDID 1.4.
+    0x00, Math.min(255, Math.max(0, year - 1990)), 0x01, 0x04,
+    0x80 | (bitDepth << 4) | INTERFACE_DISPLAYPORT,
+    // Screen size unknown, gamma 2.2.
+    0x00, 0x00, 120,
+    // sRGB default, preferred timing is native; YCbCr encodings when requested.
+    0x06 | (options.ycbcr ? 0x18 : 0x00),
+    ...encodeChromaticity(),
+    // No established timings.
+    0x00, 0x00, 0x00,
+  ], 8);
+  // All eight standard timings unused.
+  for (let i = 38; i < BASE_DESCRIPTORS_OFFSET; i += 1) base[i] = 0x01;
+  const descriptors = [
+    ...baseIndices.map((i) => encodeDtd(modes[i])),
+    rangeLimitsDescriptor(included),
+    textDescriptor(DESCRIPTOR_MONITOR_NAME, name),
+  ];
+  while (descriptors.length < 4) descriptors.push(dummyDescriptor());
+  descriptors.forEach((d, i) => base.set(d, BASE_DESCRIPTORS_OFFSET + i * DESCRIPTOR_SIZE));
+  base[126] = extensionIndices.length ? 1 : 0;
+  sealBlock(base);
+
+  if (!extensionIndices.length) return { bytes: base, placements, warnings };
+  const extensionModes = extensionIndices.map((i) => modes[i]);
+  const extension = useDisplayId
+    ? displayIdBlock(extensionModes, extensionIndices.map((i) => i === 0))
+    : ctaBlock(extensionModes, Boolean(options.ycbcr));
+  const bytes = new Uint8Array(EDID_BLOCK_SIZE * 2);
+  bytes.set(base);
+  bytes.set(extension, EDID_BLOCK_SIZE);
+  return { bytes, placements, warnings };
+}
+
+// 16 bytes per line, as edid-decode prints and `hexDumpToBytes` reads back.
+export function edidToHex(bytes: Uint8Array) {
+  const lines: string[] = [];
+  for (let i = 0; i < bytes.length; i += 16) {
+    lines.push(Array.from(bytes.slice(i, i + 16), (b) => b.toString(16).padStart(2, "0")).join(" "));
+  }
+  return lines.join("\n") + "\n";
+}
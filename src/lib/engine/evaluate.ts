@@ -0,0 +1,153 @@
+// Single entry point that turns a link + timing set into plain result data.
+import { capabilityViolations, sourceDisplayEngines, type CapabilityProfile } from "./capabilities";
+import { hdmiBitsPerPixel, hdmiTimingErrors, tmdsCharacterClock } from "./hdmi";
+import { linkCapacity, transportFamily, type LinkCapacity, type LinkConfig } from "./link";
+import { allocateMstSlots, maxStreamCount, type MstAllocation } from "./mst";
+import { allocateUsb4Bandwidth, usb4Errors, type Usb4Allocation, type Usb4Config } from "./usb4";
+import { evaluateSdpBudget, type AudioConfig, type MetadataSdpId, type SdpEvaluation } from "./sdp";
+import { resolveTiming, streamGbpsFromClock, type TimingParams } from "./timing";
+
+export interface TimingConfig extends TimingParams {
+  id?: string;
+  label?: string;
+  useDsc?: boolean;
+  // Topology node the timing's sink port belongs to.
+  sinkId?: string;
+  // Capability profile of the monitor showing this timing; the link's sink profile when unset.
+  sinkProfileId?: string;
+  // Audio stream and once-per-frame metadata SDPs sent alongside the video.
+  audio?: AudioConfig;
+  metadataSdps?: MetadataSdpId[];
+  // Stored stream rates in Gbps; when absent they are computed from the timing parameters.
+  peakBw?: string | number;
+  peakBwDsc?: string | number;
+}
+
+export interface BandwidthConfig {
+  transport: LinkConfig;
+  timings: TimingConfig[];
+  // Force MST framing, e.g. for a hop into a branch device carrying a single stream.
+  mst?: boolean;
+  // The transport is a DP IN adapter tunneled over this USB4 fabric.
+  usb4?: Usb4Config;
+  // Display engines (CRTCs / pipes) the source can drive at once; unlimited when unset.
+  displayEngines?: number;
+  // Capability profile library (the built-in one when unset) and the profiles attached to the link.
+  profiles?: CapabilityProfile[];
+  sourceProfileId?: string;
+  sinkProfileId?: string;
+}
+
+export interface TimingEvaluation {
+  index: number;
+  label: string;
+  useDsc: boolean;
+  pixelClockMHz?: number;
+  peakGbps: number;
+  peakDscGbps: number;
+  selectedGbps: number;
+  // Problems with the DSC setup of a timing that uses DSC; such a timing never fits.
+  dscErrors: string[];
+  // bpc / color format problems of an uncompressed timing; such a timing never fits either.
+  formatErrors: string[];
+  // Blanking budget for audio / metadata SDPs, when the timing sends any.
+  sdp?: SdpEvaluation;
+  // Audio bandwidth taken from active video because the horizontal blanking is too short.
+  sdpSpillGbps: number;
+  // HDMI only: TMDS character clock after deep-color scaling, and bpc / clock / DSC problems.
+  tmdsClockMHz?: number;
+  transportErrors: string[];
+}
+
+export interface ConfigurationEvaluation {
+  link: LinkCapacity;
+  timings: TimingEvaluation[];
+  totalGbps: number;
+  marginGbps: number;
+  marginPct: number;
+  utilizationPct: number;
+  fits: boolean;
+  mst: MstAllocation;
+  // Problems with the stream set as a whole, e.g. several streams on a single-stream HDMI link.
+  linkErrors: string[];
+  // Source / sink capability limits the configuration exceeds.
+  capabilityErrors: string[];
+  usb4?: Usb4Allocation;
+}
+
+function storedGbps(value: string | number | undefined, computed: () => number) {
+  if (value === undefined || value === null) return computed();
+  return Number(value) || 0;
+}
+
+function validClock(value: number | undefined) {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+export function evaluateTiming(timing: TimingConfig, index: number, transport?: LinkConfig): TimingEvaluation {
+  let resolved: ReturnType<typeof resolveTiming> | undefined;
+  const resolve = () => (resolved ??= resolveTiming(timing));
+  const useDsc = Boolean(timing.useDsc);
+  const hasMode = Number(timing.h) > 0 && Number(timing.v) > 0 && Number(timing.hz) > 0;
+  const hdmi = Boolean(transport) && transportFamily(transport.coding) === "hdmi";
+  // HDMI packs 4:2:2 into 24-bit containers, so stored DP stream rates do not apply there.
+  const peakGbps = hdmi && hasMode
+    ? streamGbpsFromClock(resolve().pixelClock, hdmiBitsPerPixel(resolve().bpc, resolve().colorFormat))
+    : storedGbps(timing.peakBw, () => resolve().peakGbps);
+  const peakDscGbps = storedGbps(timing.peakBwDsc, () => resolve().peakDscGbps);
+  const sendsSdps = Boolean(timing.audio?.channels) || Boolean(timing.metadataSdps?.length);
+  const sdp = transport && !hdmi && hasMode && sendsSdps ? evaluateSdpBudget(resolve(), transport, timing.audio, timing.metadataSdps) : undefined;
+  const pixelClockMHz = validClock(timing.pixelClock) ?? (hasMode ? resolve().pixelClock : undefined);
+  return {
+    index,
+    label: timing.label || `Timing ${index + 1}`,
+    useDsc,
+    pixelClockMHz,
+    peakGbps,
+    peakDscGbps,
+    selectedGbps: useDsc ? peakDscGbps : peakGbps,
+    dscErrors: useDsc && hasMode ? resolve().dsc.errors : [],
+    formatErrors: !useDsc && !hdmi && hasMode ? resolve().formatErrors : [],
+    sdp,
+    sdpSpillGbps: sdp?.spillGbps ?? 0,
+    tmdsClockMHz: hdmi && transport.coding === "tmds" && pixelClockMHz ? tmdsCharacterClock(pixelClockMHz, resolve().bpc, resolve().colorFormat) : undefined,
+    transportErrors: hdmi ? hdmiTimingErrors(transport, pixelClockMHz, resolve().bpc, resolve().colorFormat, useDsc) : [],
+  };
+}
+
+export function evaluateConfiguration(config: BandwidthConfig): ConfigurationEvaluation {
+  const timings = config.timings.map((timing, index) => evaluateTiming(timing, index, config.transport));
+  const streamGbps = timings.map((row) => row.selectedGbps + row.sdpSpillGbps);
+  const totalGbps = streamGbps.reduce((sum, gbps) => sum + gbps, 0);
+  // Cards on a tunneled link are checked against the granted tunnel bandwidth.
+  const usb4 = config.usb4 ? allocateUsb4Bandwidth(config.usb4, config.transport, totalGbps) : undefined;
+  const link = linkCapacity(config.transport, {
+    fec: timings.some((row) => row.useDsc),
+    mst: Boolean(config.mst) || timings.length > 1,
+    tunnelGbps: usb4?.primary.usableGbps,
+  });
+  const mst = allocateMstSlots(streamGbps, link);
+  const marginGbps = link.payloadGbps - totalGbps;
+  // Audio that spills into active video only works while the link has room for it.
+  for (const row of timings) {
+    if (row.sdp?.status === "spill" && marginGbps < 0) {
+      row.sdp.status = "fail";
+      row.sdp.warnings.push("The link has no margin left for the spilled audio.");
+    }
+  }
+  const linkErrors: string[] = config.usb4 ? usb4Errors(config.usb4, config.transport) : [];
+  const displayEngines = sourceDisplayEngines(config);
+  const streamLimit = maxStreamCount(config.transport, displayEngines);
+  if (timings.length > streamLimit) {
+    linkErrors.push(transportFamily(config.transport.coding) === "hdmi"
+      ? `HDMI carries a single stream; ${timings.length} timings are configured.`
+      : `${timings.length} streams exceed the limit of ${streamLimit} (${streamLimit === displayEngines ? "source display engines" : "MST payload IDs"}).`);
+  }
+  const capabilityErrors = capabilityViolations(config, timings);
+  // With more than one stream every stream also needs its whole VC payload slots.
+  const fits = totalGbps <= link.payloadGbps + 1e-9 && (!link.mst || mst.fits) && linkErrors.length === 0 && capabilityErrors.length === 0
+    && timings.every((row) => row.dscErrors.length === 0 && row.formatErrors.length === 0 && row.transportErrors.length === 0 && row.sdp?.status !== "fail");
+  const marginPct = link.payloadGbps > 0 ? (marginGbps / link.payloadGbps) * 100 : 0;
+  const utilizationPct = Math.max(0, Math.min(100, (totalGbps / Math.max(link.payloadGbps, 1e-6)) * 100));
+  return { link, timings, totalGbps, marginGbps, marginPct, utilizationPct, fits, mst, linkErrors, capabilityErrors, usb4 };
+}
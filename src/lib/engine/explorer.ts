@@ -0,0 +1,170 @@
+// Max-refresh / max-resolution explorer: one timing swept through the CVT generator against the
+// selected link while the other streams stay as configured.
+import type { CvtKind, CvtProfile } from "./cvt";
+import { evaluateConfiguration, evaluateTiming, type BandwidthConfig, type ConfigurationEvaluation, type TimingConfig } from "./evaluate";
+import type { LinkConfig } from "./link";
+
+export interface RefreshRange {
+  minHz: number;
+  maxHz: number;
+  stepHz: number;
+}
+
+export const DEFAULT_REFRESH_RANGE: RefreshRange = { minHz: 24, maxHz: 500, stepHz: 1 };
+
+// Common desktop and TV resolutions for the resolution sweep.
+export const EXPLORER_RESOLUTIONS: Array<{ h: number; v: number }> = [
+  { h: 1920, v: 1080 },
+  { h: 2560, v: 1080 },
+  { h: 2560, v: 1440 },
+  { h: 3440, v: 1440 },
+  { h: 3840, v: 1600 },
+  { h: 3840, v: 2160 },
+  { h: 5120, v: 1440 },
+  { h: 5120, v: 2160 },
+  { h: 5120, v: 2880 },
+  { h: 6016, v: 3384 },
+  { h: 7680, v: 2160 },
+  { h: 7680, v: 4320 },
+];
+
+export interface RefreshPoint {
+  hz: number;
+  pixelClockMHz: number;
+  gbps: number;
+  fits: boolean;
+}
+
+export interface RefreshLimit {
+  h: number;
+  v: number;
+  cvtKind: CvtProfile;
+  // Highest refresh in the range that fits; unset when even the lowest does not.
+  maxHz?: number;
+  pixelClockMHz?: number;
+  gbps?: number;
+  // What stops the next step up (or the lowest refresh) from fitting.
+  limitedBy?: string;
+}
+
+// Hand-typed and exact porches do not scale with refresh, so those timings are swept with RB2.
+export function explorerGenerator(kind: CvtKind | undefined): CvtProfile {
+  return !kind || kind === "manual" || kind === "exact" ? "cvt_rb2" : kind;
+}
+
+function sweptTiming(template: TimingConfig, h: number, v: number, hz: number): TimingConfig {
+  return { ...template, h, v, hz, cvtKind: explorerGenerator(template.cvtKind), pixelClock: undefined, peakBw: undefined, peakBwDsc: undefined };
+}
+
+// `index` is the timing to replace; `config.timings.length` adds the swept timing as an extra stream.
+function evaluateAt(config: BandwidthConfig, index: number, template: TimingConfig, h: number, v: number, hz: number) {
+  const timings = [...config.timings];
+  timings[index] = sweptTiming(template, h, v, hz);
+  return evaluateConfiguration({ ...config, timings });
+}
+
+// The first reason a configuration does not fit, looking at the swept timing before the whole set.
+function failureReason(evaluation: ConfigurationEvaluation, index: number) {
+  const row = evaluation.timings[index];
+  const reason = row.dscErrors[0] ?? row.formatErrors[0] ?? row.transportErrors[0]
+    ?? (row.sdp?.status === "fail" ? row.sdp.warnings[row.sdp.warnings.length - 1] : undefined)
+    ?? evaluation.capabilityErrors[0] ?? evaluation.linkErrors[0];
+  if (reason) return reason;
+  if (evaluation.link.mst && !evaluation.mst.fits) return "MST time slots exhausted.";
+  return `Link payload: ${evaluation.totalGbps.toFixed(2)} of ${evaluation.link.payloadGbps.toFixed(2)} Gbps.`;
+}
+
+function steps(range: RefreshRange) {
+  const step = range.stepHz > 0 ? range.stepHz : DEFAULT_REFRESH_RANGE.stepHz;
+  const count = Math.max(0, Math.floor((range.maxHz - range.minHz) / step + 1e-9)) + 1;
+  return { step, count };
+}
+
+// Every refresh step in the range, fitting or not.
+export function sweepRefreshRate(config: BandwidthConfig, index: number, template: TimingConfig, h: number, v: number, range = DEFAULT_REFRESH_RANGE): RefreshPoint[] {
+  const { step, count } = steps(range);
+  return Array.from({ length: count }, (_, k) => {
+    const hz = range.minHz + k * step;
+    const evaluation = evaluateAt(config, index, template, h, v, hz);
+    const row = evaluation.timings[index];
+    return { hz, pixelClockMHz: row.pixelClockMHz ?? 0, gbps: row.selectedGbps, fits: evaluation.fits };
+  });
+}
+
+// Binary search for the highest fitting step; bandwidth and pixel clock only grow with refresh.
+export function maxRefreshRate(config: BandwidthConfig, index: number, template: TimingConfig, h: number, v: number, range = DEFAULT_REFRESH_RANGE): RefreshLimit {
+  const { step, count } = steps(range);
+  const cvtKind = explorerGenerator(template.cvtKind);
+  const at = (k: number) => evaluateAt(config, index, template, h, v, range.minHz + k * step);
+  const lowest = at(0);
+  if (!lowest.fits) return { h, v, cvtKind, limitedBy: failureReason(lowest, index) };
+  let lo = 0;
+  let hi = count;
+  let best = lowest;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    const evaluation = at(mid);
+    if (evaluation.fits) {
+      lo = mid;
+      best = evaluation;
+    } else {
+      hi = mid;
+    }
+  }
+  const row = best.timings[index];
+  return {
+    h, v, cvtKind,
+    maxHz: range.minHz + lo * step,
+    pixelClockMHz: row.pixelClockMHz,
+    gbps: row.selectedGbps,
+    limitedBy: hi < count ? failureReason(at(hi), index) : undefined,
+  };
+}
+
+// Max refresh for each resolution at the template's pixel format and DSC setup.
+export function maxRefreshByResolution(config: BandwidthConfig, index: number, template: TimingConfig, range = DEFAULT_REFRESH_RANGE, resolutions = EXPLORER_RESOLUTIONS): RefreshLimit[] {
+  return resolutions.map(({ h, v }) => maxRefreshRate(config, index, template, h, v, range));
+}
+
+// Sweep plots: one curve per CVT profile, uncompressed and with the timing's DSC target.
+export const SWEEP_CVT_KINDS: CvtProfile[] = ["cvt", "cvt_rb", "cvt_rb2", "cvt_rb3"];
+const SWEEP_PLOT_POINTS = 120;
+
+export interface SweepVariant {
+  id: string;
+  cvtKind: CvtProfile;
+  useDsc: boolean;
+}
+
+export interface RefreshSweepCurves {
+  variants: SweepVariant[];
+  // One row per refresh step with the stream Gbps of every variant under its id.
+  rows: Array<{ hz: number } & Record<string, number>>;
+  // First plotted refresh at which each variant needs more than `limitGbps`; unset when it never does.
+  crossings: Record<string, number | undefined>;
+}
+
+// From 24 Hz to twice the timing's refresh (at least 240 Hz) in about SWEEP_PLOT_POINTS steps.
+export function sweepPlotRange(hz: number): RefreshRange {
+  const maxHz = Math.max(240, Math.ceil((Number(hz) || 60) * 2));
+  const minHz = DEFAULT_REFRESH_RANGE.minHz;
+  return { minHz, maxHz, stepHz: Math.max(1, Math.round((maxHz - minHz) / SWEEP_PLOT_POINTS)) };
+}
+
+export function refreshSweepCurves(template: TimingConfig, transport: LinkConfig, limitGbps: number, range = sweepPlotRange(Number(template.hz))): RefreshSweepCurves {
+  const variants = SWEEP_CVT_KINDS.flatMap((cvtKind) => [false, true].map((useDsc): SweepVariant => ({ id: `${cvtKind}${useDsc ? "_dsc" : ""}`, cvtKind, useDsc })));
+  const h = Number(template.h) || 1920;
+  const v = Number(template.v) || 1080;
+  const { step, count } = steps(range);
+  const rows = Array.from({ length: count }, (_, k) => {
+    const hz = range.minHz + k * step;
+    const row: { hz: number } & Record<string, number> = { hz };
+    for (const variant of variants) {
+      const timing = { ...sweptTiming(template, h, v, hz), cvtKind: variant.cvtKind, useDsc: variant.useDsc };
+      row[variant.id] = evaluateTiming(timing, 0, transport).selectedGbps;
+    }
+    return row;
+  });
+  const crossings = Object.fromEntries(variants.map((variant) => [variant.id, rows.find((row) => row[variant.id] > limitGbps + 1e-9)?.hz]));
+  return { variants, rows, crossings };
+}
@@ -0,0 +1,58 @@
+// Link-training fallback: the timing set re-evaluated at every lower DP rate and lane count.
+import { evaluateConfiguration, type BandwidthConfig, type ConfigurationEvaluation, type TimingConfig } from "./evaluate";
+import { DP_LINK_RATES, dpCodingForRate, LANE_OPTIONS, transportFamily, type LinkConfig } from "./link";
+
+// What a stream needs at a degraded link: as configured, DSC switched on, or dropped entirely.
+export type FallbackAction = "keep" | "dsc" | "drop";
+
+export interface FallbackCell {
+  rateName: string;
+  link: LinkConfig;
+  // The timing set exactly as configured.
+  evaluation: ConfigurationEvaluation;
+  // Per timing, the least intrusive action that still lets the streams kept so far fit.
+  actions: FallbackAction[];
+  // The link as selected, before any fallback.
+  current: boolean;
+}
+
+// Add streams in order: as configured if they fit, else with DSC, else dropped.
+function degradeStreams(config: BandwidthConfig): FallbackAction[] {
+  const kept: TimingConfig[] = [];
+  return config.timings.map((timing) => {
+    const tryWith = (candidate: TimingConfig) => evaluateConfiguration({ ...config, timings: [...kept, candidate] }).fits;
+    if (tryWith(timing)) {
+      kept.push(timing);
+      return "keep";
+    }
+    const compressed = { ...timing, useDsc: true };
+    if (!timing.useDsc && tryWith(compressed)) {
+      kept.push(compressed);
+      return "dsc";
+    }
+    return "drop";
+  });
+}
+
+// Rates at or below the selected one (UHBR falls back through HBR3 and down) and lane counts at or
+// below the selected count. Empty for HDMI links.
+export function linkFallbackMatrix(config: BandwidthConfig): FallbackCell[] {
+  const { transport } = config;
+  if (transportFamily(transport.coding) !== "dp") return [];
+  const rates: Array<{ rate: number; name: string }> = DP_LINK_RATES.filter((r) => r.rate <= transport.rate + 1e-9).reverse();
+  // A custom rate heads the list so the selected link is always the first row.
+  if (!rates.length || Math.abs(rates[0].rate - transport.rate) > 1e-9) rates.unshift({ rate: transport.rate, name: `${transport.rate} Gbps` });
+  const lanes = LANE_OPTIONS.filter((n) => n <= transport.lanes).reverse();
+  return rates.flatMap(({ rate, name }) => lanes.map((laneCount): FallbackCell => {
+    const sameRate = Math.abs(rate - transport.rate) < 1e-9;
+    const link: LinkConfig = { ...transport, rate, lanes: laneCount, coding: sameRate ? transport.coding : dpCodingForRate(rate) };
+    const degraded = { ...config, transport: link };
+    return {
+      rateName: name,
+      link,
+      evaluation: evaluateConfiguration(degraded),
+      actions: degradeStreams(degraded),
+      current: sameRate && laneCount === transport.lanes,
+    };
+  }));
+}
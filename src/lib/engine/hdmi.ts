@@ -0,0 +1,59 @@
+// HDMI transports: TMDS clock classes (incl. DP++ adaptors), FRL rates and deep-color clock scaling.
+import { DP_PRESETS, type DpPreset, type LinkConfig } from "./link";
+import { bitsPerPixel, type ColorFormatId } from "./timing";
+
+// TMDS character clock ceilings: HDMI 1.0–1.2, 1.4 and 2.0 (MHz).
+export const TMDS_CLOCK_LIMITS = [165, 340, 600] as const;
+// Above this clock HDMI 2.0 scrambling and the 1/40 clock ratio are required.
+export const TMDS_SCRAMBLING_THRESHOLD_MHZ = 340;
+export const HDMI_BPCS = [8, 10, 12, 16] as const;
+// YCbCr 4:2:2 shares one 24-bit container, so it tops out at 12 bpc.
+export const HDMI_YUV422_MAX_BPC = 12;
+
+// TMDS presets give the character clock × 10 as the per-lane rate; FRL presets the lane rate.
+export const HDMI_PRESETS: DpPreset[] = [
+  { id: "hdmi20_tmds600", label: "HDMI 2.0 – TMDS 600 MHz (18 Gbps)", rate: 6.0, coding: "tmds", lanes: 3 },
+  { id: "hdmi14_tmds340", label: "HDMI 1.4 – TMDS 340 MHz (10.2 Gbps)", rate: 3.4, coding: "tmds", lanes: 3 },
+  { id: "hdmi12_tmds165", label: "HDMI 1.0–1.2 – TMDS 165 MHz", rate: 1.65, coding: "tmds", lanes: 3 },
+  { id: "dpplus_type2", label: "DP++ Type 2 adaptor – TMDS 300 MHz", rate: 3.0, coding: "tmds", lanes: 3 },
+  { id: "dpplus_type1", label: "DP++ Type 1 adaptor – TMDS 165 MHz", rate: 1.65, coding: "tmds", lanes: 3 },
+  { id: "hdmi21_frl12x4", label: "HDMI 2.1 – FRL 12 Gbps ×4 (48 Gbps)", rate: 12, coding: "16b18b", lanes: 4 },
+  { id: "hdmi21_frl10x4", label: "HDMI 2.1 – FRL 10 Gbps ×4 (40 Gbps)", rate: 10, coding: "16b18b", lanes: 4 },
+  { id: "hdmi21_frl8x4", label: "HDMI 2.1 – FRL 8 Gbps ×4 (32 Gbps)", rate: 8, coding: "16b18b", lanes: 4 },
+  { id: "hdmi21_frl6x4", label: "HDMI 2.1 – FRL 6 Gbps ×4 (24 Gbps)", rate: 6, coding: "16b18b", lanes: 4 },
+  { id: "hdmi21_frl6x3", label: "HDMI 2.1 – FRL 6 Gbps ×3 (18 Gbps)", rate: 6, coding: "16b18b", lanes: 3 },
+  { id: "hdmi21_frl3x3", label: "HDMI 2.1 – FRL 3 Gbps ×3 (9 Gbps)", rate: 3, coding: "16b18b", lanes: 3 },
+];
+
+export const LINK_PRESETS: DpPreset[] = [...DP_PRESETS, ...HDMI_PRESETS];
+
+export function maxTmdsClockMHz(link: LinkConfig) {
+  return link.rate * 100;
+}
+
+// TMDS character clock: deep color scales the pixel clock by bpc/8, 4:2:0 sends two pixels per
+// character, and 4:2:2 always runs at the pixel clock.
+export function tmdsCharacterClock(pixelClockMHz: number, bpc: number, colorFormat: ColorFormatId) {
+  if (colorFormat === "yuv422") return pixelClockMHz;
+  const deepColor = bpc / 8;
+  return colorFormat === "yuv420" ? (pixelClockMHz / 2) * deepColor : pixelClockMHz * deepColor;
+}
+
+// Bits per pixel on the wire: 4:2:2 fills its 24-bit container whatever the bpc.
+export function hdmiBitsPerPixel(bpc: number, colorFormat: ColorFormatId) {
+  return colorFormat === "yuv422" ? 24 : bitsPerPixel(bpc, colorFormat);
+}
+
+export function hdmiTimingErrors(link: LinkConfig, pixelClockMHz: number | undefined, bpc: number, colorFormat: ColorFormatId, useDsc: boolean) {
+  const errors: string[] = [];
+  if (!(HDMI_BPCS as readonly number[]).includes(bpc)) errors.push(`HDMI does not carry ${bpc} bpc (${HDMI_BPCS.join(", ")} only).`);
+  if (colorFormat === "yuv422" && bpc > HDMI_YUV422_MAX_BPC) errors.push(`YCbCr 4:2:2 is limited to ${HDMI_YUV422_MAX_BPC} bpc on HDMI.`);
+  if (link.coding !== "tmds") return errors;
+  if (useDsc) errors.push("TMDS links cannot carry DSC; HDMI DSC 1.2a needs an FRL link.");
+  if (pixelClockMHz) {
+    const clock = tmdsCharacterClock(pixelClockMHz, bpc, colorFormat);
+    const limit = maxTmdsClockMHz(link);
+    if (clock > limit + 1e-6) errors.push(`TMDS clock ${clock.toFixed(2)} MHz exceeds the ${limit.toFixed(0)} MHz link limit.`);
+  }
+  return errors;
+}
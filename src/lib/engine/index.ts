@@ -0,0 +1,28 @@
+/**
+ * DP bandwidth engine
+ *
+ * Framework-free calculation library shared by the UI, the JSON import path and tooling.
+ * `evaluateConfiguration` is the entry point; the remaining exports are its building blocks.
+ */
+export * from "./cvt";
+export * from "./link";
+export * from "./hdmi";
+export * from "./timing";
+export * from "./mst";
+export * from "./dsc";
+export * from "./evaluate";
+export * from "./config";
+export * from "./edid";
+export * from "./displayid";
+export * from "./standardTimings";
+export * from "./topology";
+export * from "./solver";
+export * from "./sdp";
+export * from "./usb4";
+export * from "./usbc";
+export * from "./fallback";
+export * from "./capabilities";
+export * from "./explorer";
+export * from "./matrix";
+export * from "./modeline";
+export * from "./edidBuilder";
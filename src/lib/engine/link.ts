@@ -0,0 +1,166 @@
+// DisplayPort / HDMI link description and capacity math.
+
+// DP 8b/10b and 128b/132b; HDMI TMDS (8b/10b on three data channels) and FRL 16b/18b.
+export type Coding = "8b10b" | "128b132b" | "tmds" | "16b18b";
+export type TransportFamily = "dp" | "hdmi";
+
+export const CODINGS: Array<{ id: Coding; label: string; family: TransportFamily }> = [
+  { id: "8b10b", label: "8b/10b", family: "dp" },
+  { id: "128b132b", label: "128b/132b", family: "dp" },
+  { id: "tmds", label: "TMDS", family: "hdmi" },
+  { id: "16b18b", label: "FRL 16b/18b", family: "hdmi" },
+];
+
+export interface DpPreset {
+  id: string;
+  label: string;
+  rate: number;
+  coding: Coding;
+  lanes: number;
+}
+
+// DP presets (per‑lane raw line rate in Gbps); HDMI presets live in hdmi.ts.
+export const DP_PRESETS: DpPreset[] = [
+  { id: "custom", label: "Custom", rate: 8.1, coding: "8b10b", lanes: 4 },
+  { id: "dp20_uhbr20", label: "DP 2.0 – UHBR20 (20 Gbps ×4, 128b/132b)", rate: 20.0, coding: "128b132b", lanes: 4 },
+  { id: "dp20_uhbr13_5", label: "DP 2.0 – UHBR13.5 (13.5 Gbps ×4, 128b/132b)", rate: 13.5, coding: "128b132b", lanes: 4 },
+  { id: "dp20_uhbr10", label: "DP 2.0 – UHBR10 (10 Gbps ×4, 128b/132b)", rate: 10.0, coding: "128b132b", lanes: 4 },
+  { id: "dp13_hbr3", label: "DP 1.3/1.4 – HBR3 (8.1 Gbps ×4, 8b/10b)", rate: 8.1, coding: "8b10b", lanes: 4 },
+  { id: "dp12_hbr2", label: "DP 1.2 – HBR2 (5.4 Gbps ×4, 8b/10b)", rate: 5.4, coding: "8b10b", lanes: 4 },
+  { id: "dp12_hbr", label: "DP 1.1 – HBR (2.7 Gbps ×4, 8b/10b)", rate: 2.7, coding: "8b10b", lanes: 4 },
+  { id: "dp11_rbr", label: "DP 1.1 – RBR (1.62 Gbps ×4, 8b/10b)", rate: 1.62, coding: "8b10b", lanes: 4 },
+];
+
+// Standard DP link rates (Gbps per lane); rates above HBR3 use 128b/132b.
+export const DP_LINK_RATES = [
+  { rate: 1.62, name: "RBR" },
+  { rate: 2.7, name: "HBR" },
+  { rate: 5.4, name: "HBR2" },
+  { rate: 8.1, name: "HBR3" },
+  { rate: 10, name: "UHBR10" },
+  { rate: 13.5, name: "UHBR13.5" },
+  { rate: 20, name: "UHBR20" },
+] as const;
+
+export const LANE_OPTIONS = [1, 2, 4] as const;
+// TMDS always uses three data channels; FRL runs on three or four lanes.
+export const TMDS_LANES = 3;
+export const FRL_LANE_OPTIONS = [3, 4] as const;
+
+export interface LinkConfig {
+  // Per-lane line rate in Gbps; for TMDS the character clock × 10, so 6.0 is a 600 MHz link.
+  rate: number;
+  lanes: number;
+  coding: Coding;
+  // 0.5% spread-spectrum downspread; on unless explicitly disabled. DP only.
+  ssc?: boolean;
+}
+
+// Properties of the stream set that change link framing.
+export interface LinkUsage {
+  // 8b/10b links enable FEC whenever a stream is DSC-compressed.
+  fec?: boolean;
+  // More than one stream: MST framing (MTP header slot) on 8b/10b links.
+  mst?: boolean;
+  // DP payload a USB4 tunnel grants this link (Gbps); caps the payload when lower.
+  tunnelGbps?: number;
+}
+
+export type OverheadId = "coding" | "fec" | "framing" | "ssc" | "mtph" | "frl" | "tunnel";
+
+// One contributor to the raw → payload reduction, applied in list order.
+export interface LinkOverhead {
+  id: OverheadId;
+  label: string;
+  factor: number;
+  lossGbps: number;
+}
+
+export interface LinkCapacity extends LinkConfig {
+  rawGbps: number;
+  efficiency: number;
+  payloadGbps: number;
+  fec: boolean;
+  mst: boolean;
+  overheads: LinkOverhead[];
+}
+
+export const SSC_DOWNSPREAD = 0.005;
+// RS(254,250) parity plus FEC_PM markers on 8b/10b links (DP 1.4).
+export const FEC_8B10B_EFFICIENCY = 0.972261;
+// 128b/132b net efficiency including its always-on FEC, link-layer CRC and sync symbols (DP 2.1).
+export const UHBR_LINK_EFFICIENCY = 0.9671875;
+// MTPs carry 64 time slots; slot 0 is the MTP header.
+export const MTPH_EFFICIENCY = 63 / 64;
+// FRL character blocks carry 8 RS parity characters per 510, less the 0.3% OVERHEAD_M budget (HDMI 2.1).
+export const FRL_PACKET_EFFICIENCY = (502 / 510) * (1 - 0.003);
+
+export function codingEfficiency(coding: Coding) {
+  if (coding === "128b132b") return 128 / 132;
+  if (coding === "16b18b") return 16 / 18;
+  return 0.8;
+}
+
+export function dpCodingForRate(rate: number): Coding {
+  return rate > 8.1 ? "128b132b" : "8b10b";
+}
+
+export function transportFamily(coding: Coding): TransportFamily {
+  return coding === "tmds" || coding === "16b18b" ? "hdmi" : "dp";
+}
+
+export function codingLabel(coding: Coding) {
+  return CODINGS.find((c) => c.id === coding)?.label ?? coding;
+}
+
+export function laneOptions(coding: Coding): readonly number[] {
+  if (coding === "tmds") return [TMDS_LANES];
+  if (coding === "16b18b") return FRL_LANE_OPTIONS;
+  return LANE_OPTIONS;
+}
+
+export function normalizeCoding(value: unknown): Coding {
+  return CODINGS.some((c) => c.id === value) ? (value as Coding) : "128b132b";
+}
+
+function overheadFactors(link: LinkConfig, fec: boolean, mst: boolean): Array<Omit<LinkOverhead, "lossGbps">> {
+  const uhbr = link.coding === "128b132b";
+  const factors: Array<Omit<LinkOverhead, "lossGbps">> = [
+    { id: "coding", label: link.coding === "tmds" ? "TMDS 8b/10b coding" : `${codingLabel(link.coding)} coding`, factor: codingEfficiency(link.coding) },
+  ];
+  // HDMI has no SSC or MST; FRL always runs its RS FEC.
+  if (transportFamily(link.coding) === "hdmi") {
+    if (link.coding === "16b18b") factors.push({ id: "frl", label: "FRL RS FEC + packetization", factor: FRL_PACKET_EFFICIENCY });
+    return factors;
+  }
+  if (uhbr) {
+    factors.push({ id: "framing", label: "FEC + link-layer framing", factor: UHBR_LINK_EFFICIENCY / codingEfficiency(link.coding) });
+  } else if (fec) {
+    factors.push({ id: "fec", label: "FEC (DSC)", factor: FEC_8B10B_EFFICIENCY });
+  }
+  if (link.ssc !== false) factors.push({ id: "ssc", label: "SSC downspread 0.5%", factor: 1 - SSC_DOWNSPREAD });
+  // 128b/132b always uses MTP framing, even for a single stream.
+  if (uhbr || mst) factors.push({ id: "mtph", label: "MTP header (1 of 64 slots)", factor: MTPH_EFFICIENCY });
+  return factors;
+}
+
+export function linkCapacity(link: LinkConfig, usage: LinkUsage = {}): LinkCapacity {
+  const rawGbps = link.rate * link.lanes;
+  const hdmi = transportFamily(link.coding) === "hdmi";
+  const fec = link.coding === "128b132b" || link.coding === "16b18b" || (!hdmi && Boolean(usage.fec));
+  const mst = !hdmi && Boolean(usage.mst);
+  const factors = overheadFactors(link, fec, mst);
+  if (usage.tunnelGbps !== undefined) {
+    const untunneled = factors.reduce((gbps, item) => gbps * item.factor, rawGbps);
+    const factor = untunneled > 0 ? Math.min(1, usage.tunnelGbps / untunneled) : 1;
+    factors.push({ id: "tunnel", label: `USB4 tunnel grant (${usage.tunnelGbps.toFixed(2)} Gbps)`, factor });
+  }
+  let remaining = rawGbps;
+  const overheads = factors.map((item) => {
+    const lossGbps = remaining * (1 - item.factor);
+    remaining -= lossGbps;
+    return { ...item, lossGbps };
+  });
+  const efficiency = overheads.reduce((product, item) => product * item.factor, 1);
+  return { ...link, rawGbps, efficiency, payloadGbps: rawGbps * efficiency, fec, mst, overheads };
+}
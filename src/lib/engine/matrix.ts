@@ -0,0 +1,122 @@
+// Compatibility matrix for datasheets: a set of modes against a set of links, with and without DSC.
+import type { CvtKind } from "./cvt";
+import { evaluateConfiguration, type TimingConfig } from "./evaluate";
+import { codingLabel, laneOptions, type DpPreset, type LinkConfig } from "./link";
+import type { ColorFormatId } from "./timing";
+
+export interface MatrixMode {
+  label: string;
+  // H/V/Hz for the CVT generator, or exact porches and clock from a timing standard or EDID.
+  timing: TimingConfig;
+}
+
+export interface MatrixLink {
+  id: string;
+  label: string;
+  link: LinkConfig;
+}
+
+// Pixel format and blanking every mode is checked with.
+export interface MatrixFormat {
+  bpc: number;
+  colorFormat: ColorFormatId;
+  cvtKind: CvtKind;
+  dscBpp?: number;
+}
+
+export interface MatrixResult {
+  fits: boolean;
+  requiredGbps: number;
+  payloadGbps: number;
+  marginGbps: number;
+}
+
+export interface MatrixCell {
+  uncompressed: MatrixResult;
+  dsc: MatrixResult;
+}
+
+export interface CompatibilityMatrix {
+  modes: MatrixMode[];
+  links: MatrixLink[];
+  // Indexed [mode][link].
+  cells: MatrixCell[][];
+}
+
+// Every preset at each of the requested lane counts it supports.
+export function matrixLinks(presets: DpPreset[], laneCounts: number[], ssc = true): MatrixLink[] {
+  return presets.flatMap((preset) => laneOptions(preset.coding)
+    .filter((lanes) => laneCounts.includes(lanes))
+    .map((lanes) => ({
+      id: `${preset.id}_x${lanes}`,
+      label: `${preset.label.split(" (")[0]} ×${lanes}`,
+      link: { rate: preset.rate, lanes, coding: preset.coding, ssc },
+    })));
+}
+
+function matrixResult(link: LinkConfig, timing: TimingConfig): MatrixResult {
+  const evaluation = evaluateConfiguration({ transport: link, timings: [timing] });
+  return { fits: evaluation.fits, requiredGbps: evaluation.totalGbps, payloadGbps: evaluation.link.payloadGbps, marginGbps: evaluation.marginGbps };
+}
+
+export function compatibilityMatrix(modes: MatrixMode[], links: MatrixLink[], format: MatrixFormat): CompatibilityMatrix {
+  const cells = modes.map((mode) => {
+    // Exact timings keep their own blanking; the rest go through the chosen generator.
+    const timing: TimingConfig = { cvtKind: format.cvtKind, ...mode.timing, bpc: format.bpc, colorFormat: format.colorFormat, dscBpp: format.dscBpp };
+    return links.map((link) => ({
+      uncompressed: matrixResult(link.link, { ...timing, useDsc: false }),
+      dsc: matrixResult(link.link, { ...timing, useDsc: true }),
+    }));
+  });
+  return { modes, links, cells };
+}
+
+// Mode lists: a JSON array of { label?, h, v, hz } or one mode per line ("3840x2160@144",
+// "3840×2160 @ 144" or "3840,2160,144").
+export function parseModeList(text: string): MatrixMode[] {
+  const trimmed = text.trim();
+  const entries: Array<{ label?: string; h: number; v: number; hz: number }> = trimmed.startsWith("[")
+    ? JSON.parse(trimmed).map((m: any) => ({ label: typeof m?.label === "string" ? m.label : undefined, h: Number(m?.h), v: Number(m?.v), hz: Number(m?.hz) }))
+    : trimmed.split(/\r?\n/).map((line) => {
+      const match = line.match(/(\d+)\s*[x×,]\s*(\d+)\s*[@,]\s*(\d+(?:\.\d+)?)/i);
+      return match ? { h: Number(match[1]), v: Number(match[2]), hz: Number(match[3]) } : { h: NaN, v: NaN, hz: NaN };
+    });
+  return entries
+    .filter((m) => m.h > 0 && m.v > 0 && m.hz > 0)
+    .map((m) => ({ label: m.label ?? `${m.h}×${m.v} @ ${m.hz}`, timing: { h: m.h, v: m.v, hz: m.hz } }));
+}
+
+function csvField(value: string | number | boolean) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per mode, link and DSC setting.
+export function matrixToCsv(matrix: CompatibilityMatrix) {
+  const header = ["mode", "h", "v", "hz", "link", "rate_gbps", "lanes", "coding", "dsc", "fits", "required_gbps", "payload_gbps", "margin_gbps"];
+  const rows = matrix.modes.flatMap((mode, i) => matrix.links.flatMap((link, j) => (["uncompressed", "dsc"] as const).map((variant) => {
+    const result = matrix.cells[i][j][variant];
+    return [
+      mode.label, mode.timing.h, mode.timing.v, mode.timing.hz,
+      link.label, link.link.rate, link.link.lanes, codingLabel(link.link.coding),
+      variant === "dsc", result.fits,
+      result.requiredGbps.toFixed(2), result.payloadGbps.toFixed(2), result.marginGbps.toFixed(2),
+    ];
+  })));
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+function markdownResult(result: MatrixResult) {
+  return `${result.fits ? "✅" : "❌"} ${result.requiredGbps.toFixed(2)} Gbps (${result.marginGbps >= 0 ? "+" : ""}${result.marginGbps.toFixed(2)})`;
+}
+
+// Modes down, links across; each cell lists the uncompressed and the DSC result.
+export function matrixToMarkdown(matrix: CompatibilityMatrix) {
+  const escape = (text: string) => text.replace(/\|/g, "\\|");
+  const lines = [
+    `| Mode | ${matrix.links.map((link) => escape(link.label)).join(" | ")} |`,
+    `| --- | ${matrix.links.map(() => "---").join(" | ")} |`,
+    ...matrix.modes.map((mode, i) => `| ${escape(mode.label)} | ${matrix.cells[i].map((cell) => `${markdownResult(cell.uncompressed)}<br>DSC ${markdownResult(cell.dsc)}`).join(" | ")} |`),
+  ];
+  return lines.join("\n") + "\n";
+}
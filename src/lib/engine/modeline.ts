@@ -0,0 +1,128 @@
+// Timing strings for other tools: X11 modeline, xrandr commands, a Linux DRM mode initializer and a
+// VESA-style summary.
+import type { CvtKind } from "./cvt";
+import { resolveTiming, type TimingParams } from "./timing";
+
+export type ModelineFormat = "x11" | "xrandr" | "drm" | "vesa";
+
+export const MODELINE_FORMATS: Array<{ id: ModelineFormat; label: string }> = [
+  { id: "x11", label: "X11 Modeline" },
+  { id: "xrandr", label: "xrandr --newmode / --addmode" },
+  { id: "drm", label: "Linux DRM drm_display_mode" },
+  { id: "vesa", label: "VESA-style summary" },
+];
+
+const GENERATOR_LABELS: Record<CvtKind, string> = {
+  manual: "Manual",
+  exact: "Exact",
+  cvt: "CVT",
+  cvt_rb: "CVT-RB",
+  cvt_rb2: "CVT-RB2",
+  cvt_rb3: "CVT-RB3",
+};
+
+// Frame-based horizontal and vertical edges, as modelines and DRM modes count them.
+export interface ModeTiming {
+  name: string;
+  generator: string;
+  cvtId?: string;
+  pixelClockMHz: number;
+  h: number; hSyncStart: number; hSyncEnd: number; hTotal: number;
+  v: number; vSyncStart: number; vSyncEnd: number; vTotal: number;
+  hSyncPositive: boolean;
+  vSyncPositive: boolean;
+  interlaced: boolean;
+  // Field rate for interlaced modes.
+  refreshHz: number;
+}
+
+function stored(value: unknown, fallback: number) {
+  const n = Number(value);
+  return value !== undefined && value !== null && value !== "" && Number.isFinite(n) ? n : fallback;
+}
+
+// Uses the stored porches and sync widths, filling gaps from the generator. The clock is always the
+// resolved one (the generator's, the exact card's own, or the manual card's from its totals), so it
+// belongs to the same porches. Interlaced porches are per field, so the vertical edges are doubled
+// and the half line added to the total.
+export function modeTiming(params: TimingParams, generatorLabel?: string): ModeTiming {
+  const resolved = resolveTiming(params);
+  const interlaced = Boolean(params.interlaced);
+  const fieldLines = interlaced ? 2 : 1;
+  const h = resolved.h;
+  const v = resolved.v;
+  const hFront = stored(params.hFront, resolved.hFront);
+  const hSync = stored(params.hSync, resolved.hSync);
+  const hBack = stored(params.hBack, resolved.hBack);
+  const vFront = stored(params.vFront, resolved.vFront) * fieldLines;
+  const vSync = stored(params.vSync, resolved.vSync) * fieldLines;
+  const vBack = stored(params.vBack, resolved.vBack) * fieldLines + (interlaced ? 1 : 0);
+  const pixelClockMHz = resolved.pixelClock;
+  const hTotal = h + hFront + hSync + hBack;
+  const vTotal = v + vFront + vSync + vBack;
+  return {
+    name: `${h}x${v}${interlaced ? "i" : ""}_${resolved.hz.toFixed(2)}`,
+    generator: generatorLabel ?? GENERATOR_LABELS[resolved.cvtKind],
+    cvtId: resolved.cvtId,
+    pixelClockMHz,
+    h, hSyncStart: h + hFront, hSyncEnd: h + hFront + hSync, hTotal,
+    v, vSyncStart: v + vFront, vSyncEnd: v + vFront + vSync, vTotal,
+    hSyncPositive: resolved.hSyncPositive,
+    vSyncPositive: resolved.vSyncPositive,
+    interlaced,
+    refreshHz: ((pixelClockMHz * 1e6) / (hTotal * vTotal)) * fieldLines,
+  };
+}
+
+function modelineBody(m: ModeTiming) {
+  const flags = `${m.hSyncPositive ? "+" : "-"}hsync ${m.vSyncPositive ? "+" : "-"}vsync${m.interlaced ? " Interlace" : ""}`;
+  return `"${m.name}" ${m.pixelClockMHz.toFixed(2)}  ${m.h} ${m.hSyncStart} ${m.hSyncEnd} ${m.hTotal}  ${m.v} ${m.vSyncStart} ${m.vSyncEnd} ${m.vTotal}  ${flags}`;
+}
+
+export function x11Modeline(m: ModeTiming) {
+  return `Modeline ${modelineBody(m)}`;
+}
+
+export function xrandrCommands(m: ModeTiming, output = "DP-1") {
+  return `xrandr --newmode ${modelineBody(m)}\nxrandr --addmode ${output} "${m.name}"`;
+}
+
+// DRM_MODE(name, type, clock kHz, hdisplay, hsync_start, hsync_end, htotal, hskew,
+//          vdisplay, vsync_start, vsync_end, vtotal, vscan, flags)
+export function drmModeInitializer(m: ModeTiming) {
+  const flags = [
+    m.hSyncPositive ? "DRM_MODE_FLAG_PHSYNC" : "DRM_MODE_FLAG_NHSYNC",
+    m.vSyncPositive ? "DRM_MODE_FLAG_PVSYNC" : "DRM_MODE_FLAG_NVSYNC",
+    ...(m.interlaced ? ["DRM_MODE_FLAG_INTERLACE"] : []),
+  ];
+  return [
+    `/* ${m.h}x${m.v}${m.interlaced ? "i" : ""}@${m.refreshHz.toFixed(3)}Hz ${m.generator} */`,
+    `{ DRM_MODE("${m.h}x${m.v}${m.interlaced ? "i" : ""}", DRM_MODE_TYPE_DRIVER, ${Math.round(m.pixelClockMHz * 1000)}, ${m.h}, ${m.hSyncStart},`,
+    `\t   ${m.hSyncEnd}, ${m.hTotal}, 0, ${m.v}, ${m.vSyncStart}, ${m.vSyncEnd}, ${m.vTotal}, 0,`,
+    `\t   ${flags.join(" | ")}) },`,
+  ].join("\n");
+}
+
+export function vesaSummary(m: ModeTiming) {
+  const sign = (positive: boolean) => (positive ? "+" : "−");
+  const hFront = m.hSyncStart - m.h;
+  const hSync = m.hSyncEnd - m.hSyncStart;
+  const vFront = m.vSyncStart - m.v;
+  const vSync = m.vSyncEnd - m.vSyncStart;
+  return [
+    `${m.h}×${m.v}${m.interlaced ? "i" : ""} @ ${m.refreshHz.toFixed(3)} Hz (${m.generator}${m.cvtId ? `, ${m.cvtId}` : ""})`,
+    `Pixel clock:  ${m.pixelClockMHz.toFixed(3)} MHz`,
+    `Horizontal:   active ${m.h}, front porch ${hFront}, sync ${hSync} (${sign(m.hSyncPositive)}), back porch ${m.hTotal - m.hSyncEnd}, blank ${m.hTotal - m.h}, total ${m.hTotal} — ${((m.pixelClockMHz * 1000) / m.hTotal).toFixed(3)} kHz`,
+    `Vertical:     active ${m.v}, front porch ${vFront}, sync ${vSync} (${sign(m.vSyncPositive)}), back porch ${m.vTotal - m.vSyncEnd}, blank ${m.vTotal - m.v}, total ${m.vTotal}${m.interlaced ? " (frame, interlaced)" : ""}`,
+  ].join("\n");
+}
+
+export function formatModeline(format: ModelineFormat, m: ModeTiming, output?: string) {
+  switch (format) {
+    case "xrandr": return xrandrCommands(m, output);
+    case "drm": return drmModeInitializer(m);
+    case "vesa": return vesaSummary(m);
+    case "x11":
+    default: return x11Modeline(m);
+  }
+}
@@ -0,0 +1,88 @@
+// MST time-slot allocation across the 64-slot MTP using PBN / VCPI.
+import { transportFamily, type LinkCapacity, type LinkConfig } from "./link";
+
+export const MST_SLOT_TOTAL = 64;
+// Slot 0 of every MTP carries the MTP header.
+export const MST_HEADER_SLOTS = 1;
+export const MST_PAYLOAD_SLOTS = MST_SLOT_TOTAL - MST_HEADER_SLOTS;
+
+// Every stream needs its own VC payload ID and at least one slot.
+export const MST_MAX_STREAMS = MST_PAYLOAD_SLOTS;
+
+// One PBN unit is 54/64 MBps; stream PBN includes a 0.6% margin for clock tolerance and SSC.
+export const PBN_UNIT_MBPS = 54 / 64;
+export const PBN_MARGIN = 1.006;
+
+export interface MstStreamAllocation {
+  index: number;
+  pbn: number;
+  requiredSlots: number;
+  // First VC payload slot (VCPI start), undefined when the stream did not fit.
+  startSlot?: number;
+  allocatedSlots: number;
+  fits: boolean;
+}
+
+export interface MstAllocation {
+  // Owner (timing index) of each slot, or null for the MTP header and unallocated slots.
+  slots: Array<number | null>;
+  slotCounts: number[];
+  pbnPerSlot: number;
+  streams: MstStreamAllocation[];
+  usedSlots: number;
+  // Slots requested beyond the 63 payload slots.
+  overflowSlots: number;
+  fits: boolean;
+}
+
+// Streams a link can carry: one on HDMI, otherwise bounded by MST payload IDs and, when known, the
+// source's display engines (one per stream).
+export function maxStreamCount(link: LinkConfig, displayEngines?: number) {
+  const transportLimit = transportFamily(link.coding) === "hdmi" ? 1 : MST_MAX_STREAMS;
+  return displayEngines && displayEngines > 0 ? Math.min(transportLimit, displayEngines) : transportLimit;
+}
+
+export function streamPbn(bandwidthGbps: number) {
+  const mbps = (Math.max(0, bandwidthGbps) * 1000) / 8;
+  return Math.ceil((mbps * PBN_MARGIN) / PBN_UNIT_MBPS);
+}
+
+// PBN carried by one time slot: the link bandwidth after channel coding (and FEC / link-layer
+// framing) spread over the 64 slots. SSC and the MTP header are covered by the PBN margin and slot 0.
+export function pbnPerSlot(link: LinkCapacity) {
+  const channelEfficiency = link.overheads
+    .filter((o) => o.id === "coding" || o.id === "fec" || o.id === "framing")
+    .reduce((product, o) => product * o.factor, 1);
+  const mbps = (link.rawGbps * channelEfficiency * 1000) / 8;
+  return mbps / MST_SLOT_TOTAL / PBN_UNIT_MBPS;
+}
+
+// Allocate whole slots in stream order starting after the header. A stream whose required slots do
+// not fit keeps none and is reported as failing; later, smaller streams may still fit.
+export function allocateMstSlots(bandwidthsGbps: number[], link: LinkCapacity): MstAllocation {
+  const perSlot = pbnPerSlot(link);
+  const slots: Array<number | null> = Array(MST_SLOT_TOTAL).fill(null);
+  let cursor = MST_HEADER_SLOTS;
+
+  const streams = bandwidthsGbps.map((gbps, index): MstStreamAllocation => {
+    const pbn = streamPbn(gbps);
+    const requiredSlots = perSlot > 0 ? Math.ceil(pbn / perSlot) : Infinity;
+    if (pbn === 0) return { index, pbn, requiredSlots: 0, allocatedSlots: 0, fits: true };
+    if (cursor + requiredSlots > MST_SLOT_TOTAL) return { index, pbn, requiredSlots, allocatedSlots: 0, fits: false };
+    const startSlot = cursor;
+    slots.fill(index, startSlot, startSlot + requiredSlots);
+    cursor += requiredSlots;
+    return { index, pbn, requiredSlots, startSlot, allocatedSlots: requiredSlots, fits: true };
+  });
+
+  const requested = streams.reduce((sum, s) => sum + s.requiredSlots, 0);
+  return {
+    slots,
+    slotCounts: streams.map((s) => s.allocatedSlots),
+    pbnPerSlot: perSlot,
+    streams,
+    usedSlots: cursor - MST_HEADER_SLOTS,
+    overflowSlots: Number.isFinite(requested) ? Math.max(0, requested - MST_PAYLOAD_SLOTS) : 0,
+    fits: streams.every((s) => s.fits),
+  };
+}
@@ -0,0 +1,98 @@
+// Secondary-data packets (audio and metadata SDPs) against the blanking left by a timing.
+import { codingEfficiency, SSC_DOWNSPREAD, type LinkConfig } from "./link";
+import type { ResolvedTiming } from "./timing";
+
+export const AUDIO_CHANNEL_OPTIONS = [2, 6, 8] as const;
+export const AUDIO_SAMPLE_RATES = [32000, 44100, 48000, 88200, 96000, 176400, 192000] as const;
+export const AUDIO_SAMPLE_SIZES = [16, 20, 24] as const;
+
+export interface AudioConfig {
+  channels: number;
+  sampleRateHz: number;
+  // LPCM sample size; every sample still travels in a 32-bit IEC 60958 subframe.
+  sampleSize: number;
+  // IEC 61937 bitstream (AC-3, DTS, TrueHD …) carried at the given channel count and rate.
+  compressed?: boolean;
+}
+
+export type MetadataSdpId = "hdr" | "vsc" | "adaptiveSync";
+
+// Once-per-frame SDPs that have to land in the vertical blanking.
+export const METADATA_SDPS: Array<{ id: MetadataSdpId; label: string }> = [
+  { id: "hdr", label: "HDR static metadata InfoFrame" },
+  { id: "vsc", label: "VSC SDP (colorimetry / pixel encoding)" },
+  { id: "adaptiveSync", label: "Adaptive-Sync SDP" },
+];
+
+// BS, VB-ID, Mvid, Maud at blanking start and BE at its end, per lane.
+export const BLANKING_CONTROL_SYMBOLS = 5;
+// SS and SE framing one SDP, per lane.
+export const SDP_FRAMING_SYMBOLS = 2;
+// 4 header bytes plus their 4 parity bytes.
+export const SDP_HEADER_BYTES = 8;
+// Every 16 payload bytes carry 4 parity bytes.
+export const SDP_PARITY_FACTOR = 20 / 16;
+export const AUDIO_SUBFRAME_BYTES = 4;
+// InfoFrame-style SDPs carry 32 payload bytes.
+export const METADATA_SDP_PAYLOAD_BYTES = 32;
+
+export type SdpStatus = "ok" | "spill" | "fail";
+
+export interface SdpEvaluation {
+  // Per-lane symbol budgets and demands.
+  hBlankSymbols: number;
+  audioSymbolsPerLine: number;
+  vBlankSymbols: number;
+  metadataSymbols: number;
+  // Audio sample periods in the busiest line.
+  samplesPerLine: number;
+  // Audio that does not fit the horizontal blanking and takes TU stuffing during active video.
+  spillGbps: number;
+  status: SdpStatus;
+  warnings: string[];
+}
+
+function sdpSymbols(payloadBytes: number, lanes: number) {
+  return SDP_FRAMING_SYMBOLS + Math.ceil((SDP_HEADER_BYTES + payloadBytes * SDP_PARITY_FACTOR) / lanes);
+}
+
+// Symbols one lane carries per second: after channel coding and, when enabled, the SSC downspread.
+export function laneSymbolRate(link: LinkConfig) {
+  const ssc = link.ssc !== false ? 1 - SSC_DOWNSPREAD : 1;
+  return (link.rate * 1e9 * codingEfficiency(link.coding) * ssc) / 8;
+}
+
+// Audio is sent as one SDP per line in the horizontal blanking of active lines; metadata SDPs, the
+// audio InfoFrame and the audio timestamp go once per frame into the vertical blanking.
+export function evaluateSdpBudget(timing: ResolvedTiming, link: LinkConfig, audio?: AudioConfig, metadata: MetadataSdpId[] = []): SdpEvaluation {
+  const lanes = Math.max(1, link.lanes);
+  const symbolRate = laneSymbolRate(link);
+  const hBlank = timing.hFront + timing.hSync + timing.hBack;
+  const hTotal = timing.h + hBlank;
+  const vBlank = timing.vFront + timing.vSync + timing.vBack;
+  const lineSeconds = hTotal / (timing.pixelClock * 1e6);
+  const lineSymbols = lineSeconds * symbolRate;
+  const hBlankSymbols = Math.max(0, (hBlank / hTotal) * lineSymbols - BLANKING_CONTROL_SYMBOLS);
+
+  const hasAudio = Boolean(audio && audio.channels > 0 && audio.sampleRateHz > 0);
+  const samplesPerLine = hasAudio ? Math.ceil(audio.sampleRateHz * lineSeconds) : 0;
+  const audioSymbolsPerLine = hasAudio ? sdpSymbols(samplesPerLine * audio.channels * AUDIO_SUBFRAME_BYTES, lanes) : 0;
+
+  const frameSdps = metadata.length + (hasAudio ? 2 : 0);
+  const metadataSymbols = frameSdps * sdpSymbols(METADATA_SDP_PAYLOAD_BYTES, lanes);
+  const vBlankSymbols = Math.max(0, vBlank * (lineSymbols - BLANKING_CONTROL_SYMBOLS - audioSymbolsPerLine));
+
+  const warnings: string[] = [];
+  let status: SdpStatus = "ok";
+  const excess = audioSymbolsPerLine - hBlankSymbols;
+  const spillGbps = excess > 0 ? (excess * lanes * 8 * timing.v * timing.hz) / 1e9 : 0;
+  if (excess > 0) {
+    status = "spill";
+    warnings.push(`Audio needs ${audioSymbolsPerLine} symbols per lane per line; the ${hBlank}-pixel blanking leaves ${Math.floor(hBlankSymbols)}. ${spillGbps.toFixed(3)} Gbps spills into active video.`);
+  }
+  if (metadataSymbols > vBlankSymbols) {
+    status = "fail";
+    warnings.push(`${frameSdps} per-frame SDPs need ${metadataSymbols} symbols per lane; the ${vBlank}-line vertical blanking leaves ${Math.floor(vBlankSymbols)}.`);
+  }
+  return { hBlankSymbols, audioSymbolsPerLine, vBlankSymbols, metadataSymbols, samplesPerLine, spillGbps, status, warnings };
+}
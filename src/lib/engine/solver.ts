@@ -0,0 +1,172 @@
+// "Make it fit": search per-timing pixel format, DSC and blanking options for the least lossy
+// combination that fits the link.
+import type { CvtKind } from "./cvt";
+import { DSC_BPP_STEP, DSC_MIN_BPP } from "./dsc";
+import { evaluateConfiguration, type BandwidthConfig, type ConfigurationEvaluation, type TimingConfig } from "./evaluate";
+import { linkCapacity } from "./link";
+import { BPC_OPTIONS, COLOR_FORMATS, DEFAULT_BPC, DEFAULT_COLOR_FORMAT, isColorFormatId, isPixelFormatSupported, resolveTiming, type ColorFormatId } from "./timing";
+
+// Options the solver must leave as they are on a timing.
+export interface SolverLocks {
+  dsc?: boolean;
+  bpc?: boolean;
+  colorFormat?: boolean;
+  cvtKind?: boolean;
+}
+
+export interface SolverChoice {
+  useDsc: boolean;
+  dscBpp?: number;
+  bpc: number;
+  colorFormat: ColorFormatId;
+  cvtKind?: CvtKind;
+  gbps: number;
+  // Relative image-quality cost; 0 is uncompressed full-chroma at the timing's own bpc.
+  loss: number;
+}
+
+export interface SolverAlternative {
+  choices: SolverChoice[];
+  loss: number;
+  marginGbps: number;
+  fits: boolean;
+}
+
+export interface SolverResult {
+  alreadyFits: boolean;
+  solution?: SolverAlternative & { evaluation: ConfigurationEvaluation };
+  // Less lossy combinations that were tried first and do not fit, in the order tried.
+  rejected: SolverAlternative[];
+}
+
+const CHROMA_LOSS: Record<ColorFormatId, number> = { rgb: 0, yuv444: 0, yuv422: 2, yuv420: 4 };
+const BPC_LOSS_PER_BIT = 1;
+const DSC_LOSS = 1;
+const DSC_RATIO_LOSS = 4;
+const BLANKING_LOSS = 0.25;
+// DSC targets are searched in half-bit steps and refined to 1/16 bpp on the chosen solution.
+const DSC_SEARCH_STEP = 0.5;
+const MAX_REJECTED = 8;
+
+function choiceLoss(choice: Omit<SolverChoice, "loss" | "gbps">, baseBpc: number, baseKind: CvtKind | undefined, uncompressedBpp: number) {
+  let loss = CHROMA_LOSS[choice.colorFormat] + Math.max(0, baseBpc - choice.bpc) * BPC_LOSS_PER_BIT;
+  if (choice.useDsc && choice.dscBpp) loss += DSC_LOSS + DSC_RATIO_LOSS * (1 - choice.dscBpp / uncompressedBpp);
+  if (choice.cvtKind !== baseKind) loss += BLANKING_LOSS;
+  return loss;
+}
+
+function applyChoice(timing: TimingConfig, choice: SolverChoice): TimingConfig {
+  return {
+    ...timing,
+    useDsc: choice.useDsc,
+    dscBpp: choice.useDsc ? choice.dscBpp : timing.dscBpp,
+    bpc: choice.bpc,
+    colorFormat: choice.colorFormat,
+    cvtKind: choice.cvtKind,
+    peakBw: undefined,
+    peakBwDsc: undefined,
+  };
+}
+
+// Keep only choices that no other choice beats on both bandwidth and loss.
+function paretoFront<T extends { gbps: number; loss: number }>(items: T[]): T[] {
+  const sorted = [...items].sort((a, b) => a.gbps - b.gbps || a.loss - b.loss);
+  const front: T[] = [];
+  for (const item of sorted) {
+    if (!front.length || item.loss < front[front.length - 1].loss - 1e-9) front.push(item);
+  }
+  return front;
+}
+
+function timingChoices(timing: TimingConfig, locks: SolverLocks): SolverChoice[] {
+  const baseBpc = Number(timing.bpc) || DEFAULT_BPC;
+  const baseFormat = isColorFormatId(timing.colorFormat) ? timing.colorFormat : DEFAULT_COLOR_FORMAT;
+  const baseKind = timing.cvtKind;
+  const hasMode = Number(timing.h) > 0 && Number(timing.v) > 0 && Number(timing.hz) > 0;
+  if (!hasMode) {
+    // Nothing to re-derive: the stored stream rate is the only option.
+    const gbps = Number(timing.useDsc ? timing.peakBwDsc : timing.peakBw) || 0;
+    return [{ useDsc: Boolean(timing.useDsc), dscBpp: timing.dscBpp, bpc: baseBpc, colorFormat: baseFormat, cvtKind: baseKind, gbps, loss: 0 }];
+  }
+
+  const kinds: Array<CvtKind | undefined> = locks.cvtKind || baseKind === "manual" || baseKind === "exact"
+    ? [baseKind]
+    : [...new Set<CvtKind | undefined>([baseKind, "cvt_rb", "cvt_rb2"])];
+  const formats = locks.colorFormat ? [baseFormat] : (Object.keys(COLOR_FORMATS) as ColorFormatId[]);
+  const bpcs = locks.bpc ? [baseBpc] : [...new Set([baseBpc, ...BPC_OPTIONS.filter((b) => b < baseBpc)])];
+
+  const choices: SolverChoice[] = [];
+  for (const cvtKind of kinds) {
+    for (const colorFormat of formats) {
+      for (const bpc of bpcs) {
+        const uncompressed = resolveTiming({ ...timing, cvtKind, colorFormat, bpc });
+        const push = (useDsc: boolean, dscBpp?: number, gbps = uncompressed.peakGbps) => {
+          const choice = { useDsc, dscBpp, bpc, colorFormat, cvtKind };
+          choices.push({ ...choice, gbps, loss: choiceLoss(choice, baseBpc, baseKind, uncompressed.bpp) });
+        };
+        if ((!locks.dsc || !timing.useDsc) && isPixelFormatSupported(bpc, colorFormat)) push(false);
+        if (locks.dsc && !timing.useDsc) continue;
+        if (locks.dsc && timing.useDsc) {
+          const resolved = resolveTiming({ ...timing, cvtKind, colorFormat, bpc });
+          if (!resolved.dsc.errors.length) push(true, resolved.dscBpp, resolved.peakDscGbps);
+          continue;
+        }
+        if (!isPixelFormatSupported(bpc, colorFormat, true)) continue;
+        for (let dscBpp = DSC_MIN_BPP[uncompressed.dsc.sampling]; dscBpp <= uncompressed.dsc.maxBpp; dscBpp += DSC_SEARCH_STEP) {
+          const resolved = resolveTiming({ ...timing, cvtKind, colorFormat, bpc, dscBpp });
+          if (!resolved.dsc.errors.length) push(true, dscBpp, resolved.peakDscGbps);
+        }
+      }
+    }
+  }
+  return paretoFront(choices);
+}
+
+// Raise each compressed stream's target bpp in 1/16 steps while the configuration still fits.
+function refineDsc(config: BandwidthConfig, choices: SolverChoice[]): SolverChoice[] {
+  const refined = [...choices];
+  refined.forEach((choice, i) => {
+    if (!choice.useDsc || !choice.dscBpp) return;
+    for (;;) {
+      const next = { ...refined[i], dscBpp: refined[i].dscBpp + DSC_BPP_STEP };
+      const resolved = resolveTiming(applyChoice(config.timings[i], next));
+      if (resolved.dsc.errors.length) return;
+      const trial = refined.map((c, j) => (j === i ? next : c));
+      if (!evaluateConfiguration({ ...config, timings: config.timings.map((t, j) => applyChoice(t, trial[j])) }).fits) return;
+      refined[i] = { ...next, gbps: resolved.peakDscGbps, loss: choiceLoss(next, Number(config.timings[i].bpc) || DEFAULT_BPC, config.timings[i].cvtKind, resolved.bpp) };
+    }
+  });
+  return refined;
+}
+
+export function solveToFit(config: BandwidthConfig, locks: SolverLocks[] = []): SolverResult {
+  const current = evaluateConfiguration(config);
+  if (current.fits) return { alreadyFits: true, rejected: [] };
+
+  // Upper bound for pruning: the link without FEC or MST framing.
+  const ceiling = linkCapacity(config.transport).payloadGbps;
+  let partials: Array<{ choices: SolverChoice[]; gbps: number; loss: number }> = [{ choices: [], gbps: 0, loss: 0 }];
+  config.timings.forEach((timing, i) => {
+    const options = timingChoices(timing, locks[i] ?? {});
+    const next = partials.flatMap((p) => options.map((o) => ({ choices: [...p.choices, o], gbps: p.gbps + o.gbps, loss: p.loss + o.loss })));
+    // Fronts are kept apart for combinations with and without DSC, since DSC also turns on FEC.
+    const feasible = next.filter((p) => p.gbps <= ceiling + 1e-9);
+    const usesDsc = (p: (typeof feasible)[number]) => p.choices.some((c) => c.useDsc);
+    partials = [...paretoFront(feasible.filter(usesDsc)), ...paretoFront(feasible.filter((p) => !usesDsc(p)))];
+  });
+
+  const rejected: SolverAlternative[] = [];
+  for (const candidate of [...partials].sort((a, b) => a.loss - b.loss)) {
+    const evaluation = evaluateConfiguration({ ...config, timings: config.timings.map((t, i) => applyChoice(t, candidate.choices[i])) });
+    if (evaluation.fits) {
+      const choices = refineDsc(config, candidate.choices);
+      const refined = evaluateConfiguration({ ...config, timings: config.timings.map((t, i) => applyChoice(t, choices[i])) });
+      const loss = choices.reduce((sum, c) => sum + c.loss, 0);
+      return { alreadyFits: false, solution: { choices, loss, marginGbps: refined.marginGbps, fits: true, evaluation: refined }, rejected };
+    }
+    if (rejected.length < MAX_REJECTED) {
+      rejected.push({ choices: candidate.choices, loss: candidate.loss, marginGbps: evaluation.marginGbps, fits: false });
+    }
+  }
+  return { alreadyFits: false, rejected };
+}
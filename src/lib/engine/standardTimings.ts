@@ -0,0 +1,182 @@
+// CTA-861 VIC and VESA DMT timing libraries with exact porches, sync polarity and pixel clock.
+import { timingLabel, type DetailedTiming } from "./timing";
+
+// [code, hActive, hFront, hSync, hBack, vActive, vFront, vSync, vBack, pixelClockMHz, hSync+, vSync+, interlaced]
+// Interlaced rows give frame lines with per-field vertical porches.
+type TimingRowData = [number, number, number, number, number, number, number, number, number, number, boolean, boolean, boolean?];
+
+// CTA-861-H Table 1 (subset: SD, HD, UHD, 5K, 8K and 10K formats).
+const CTA_VIC_ROWS: TimingRowData[] = [
+  [1, 640, 16, 96, 48, 480, 10, 2, 33, 25.2, false, false],
+  [2, 720, 16, 62, 60, 480, 9, 6, 30, 27.027, false, false],
+  [3, 720, 16, 62, 60, 480, 9, 6, 30, 27.027, false, false],
+  [4, 1280, 110, 40, 220, 720, 5, 5, 20, 74.25, true, true],
+  [5, 1920, 88, 44, 148, 1080, 2, 5, 15, 74.25, true, true, true],
+  [16, 1920, 88, 44, 148, 1080, 4, 5, 36, 148.5, true, true],
+  [17, 720, 12, 64, 68, 576, 5, 5, 39, 27, false, false],
+  [18, 720, 12, 64, 68, 576, 5, 5, 39, 27, false, false],
+  [19, 1280, 440, 40, 220, 720, 5, 5, 20, 74.25, true, true],
+  [20, 1920, 528, 44, 148, 1080, 2, 5, 15, 74.25, true, true, true],
+  [31, 1920, 528, 44, 148, 1080, 4, 5, 36, 148.5, true, true],
+  [32, 1920, 638, 44, 148, 1080, 4, 5, 36, 74.25, true, true],
+  [33, 1920, 528, 44, 148, 1080, 4, 5, 36, 74.25, true, true],
+  [34, 1920, 88, 44, 148, 1080, 4, 5, 36, 74.25, true, true],
+  [41, 1280, 440, 40, 220, 720, 5, 5, 20, 148.5, true, true],
+  [47, 1280, 110, 40, 220, 720, 5, 5, 20, 148.5, true, true],
+  [60, 1280, 1760, 40, 220, 720, 5, 5, 20, 59.4, true, true],
+  [61, 1280, 2420, 40, 220, 720, 5, 5, 20, 74.25, true, true],
+  [62, 1280, 1760, 40, 220, 720, 5, 5, 20, 74.25, true, true],
+  [63, 1920, 88, 44, 148, 1080, 4, 5, 36, 297, true, true],
+  [64, 1920, 528, 44, 148, 1080, 4, 5, 36, 297, true, true],
+  [93, 3840, 1276, 88, 296, 2160, 8, 10, 72, 297, true, true],
+  [94, 3840, 1056, 88, 296, 2160, 8, 10, 72, 297, true, true],
+  [95, 3840, 176, 88, 296, 2160, 8, 10, 72, 297, true, true],
+  [96, 3840, 1056, 88, 296, 2160, 8, 10, 72, 594, true, true],
+  [97, 3840, 176, 88, 296, 2160, 8, 10, 72, 594, true, true],
+  [98, 4096, 1020, 88, 296, 2160, 8, 10, 72, 297, true, true],
+  [99, 4096, 968, 88, 128, 2160, 8, 10, 72, 297, true, true],
+  [100, 4096, 88, 88, 128, 2160, 8, 10, 72, 297, true, true],
+  [101, 4096, 968, 88, 128, 2160, 8, 10, 72, 594, true, true],
+  [102, 4096, 88, 88, 128, 2160, 8, 10, 72, 594, true, true],
+  [108, 1280, 960, 40, 220, 720, 5, 5, 20, 90, true, true],
+  [111, 1920, 638, 44, 148, 1080, 4, 5, 36, 148.5, true, true],
+  [114, 3840, 1276, 88, 296, 2160, 8, 10, 72, 594, true, true],
+  [115, 4096, 1020, 88, 296, 2160, 8, 10, 72, 594, true, true],
+  [117, 3840, 1056, 88, 296, 2160, 8, 10, 72, 1188, true, true],
+  [118, 3840, 176, 88, 296, 2160, 8, 10, 72, 1188, true, true],
+  [121, 5120, 1996, 88, 296, 2160, 8, 10, 22, 396, true, true],
+  [122, 5120, 1696, 88, 296, 2160, 8, 10, 22, 396, true, true],
+  [123, 5120, 664, 88, 128, 2160, 8, 10, 22, 396, true, true],
+  [124, 5120, 746, 88, 296, 2160, 8, 10, 297, 742.5, true, true],
+  [125, 5120, 1096, 88, 296, 2160, 8, 10, 72, 742.5, true, true],
+  [126, 5120, 164, 88, 128, 2160, 8, 10, 72, 742.5, true, true],
+  [127, 5120, 1096, 88, 296, 2160, 8, 10, 72, 1485, true, true],
+  [193, 5120, 164, 88, 128, 2160, 8, 10, 72, 1485, true, true],
+  [194, 7680, 2552, 176, 592, 4320, 16, 20, 144, 1188, true, true],
+  [195, 7680, 2352, 176, 592, 4320, 16, 20, 44, 1188, true, true],
+  [196, 7680, 552, 176, 592, 4320, 16, 20, 44, 1188, true, true],
+  [197, 7680, 2552, 176, 592, 4320, 16, 20, 144, 2376, true, true],
+  [198, 7680, 2352, 176, 592, 4320, 16, 20, 44, 2376, true, true],
+  [199, 7680, 552, 176, 592, 4320, 16, 20, 44, 2376, true, true],
+  [200, 7680, 2112, 176, 592, 4320, 16, 20, 144, 4752, true, true],
+  [201, 7680, 352, 176, 592, 4320, 16, 20, 144, 4752, true, true],
+  [210, 10240, 1492, 176, 592, 4320, 16, 20, 594, 1485, true, true],
+  [211, 10240, 2492, 176, 592, 4320, 16, 20, 44, 1485, true, true],
+  [212, 10240, 288, 176, 296, 4320, 16, 20, 144, 1485, true, true],
+  [213, 10240, 1492, 176, 592, 4320, 16, 20, 594, 2970, true, true],
+  [214, 10240, 2492, 176, 592, 4320, 16, 20, 44, 2970, true, true],
+  [215, 10240, 288, 176, 296, 4320, 16, 20, 144, 2970, true, true],
+  [216, 10240, 2192, 176, 592, 4320, 16, 20, 144, 5940, true, true],
+  [217, 10240, 288, 176, 296, 4320, 16, 20, 144, 5940, true, true],
+  [218, 4096, 800, 88, 296, 2160, 8, 10, 72, 1188, true, true],
+  [219, 4096, 88, 88, 128, 2160, 8, 10, 72, 1188, true, true],
+];
+
+// VESA DMT 1.13 (subset), keyed by DMT ID.
+const DMT_ROWS: TimingRowData[] = [
+  [0x04, 640, 16, 96, 48, 480, 10, 2, 33, 25.175, false, false],
+  [0x09, 800, 40, 128, 88, 600, 1, 4, 23, 40, true, true],
+  [0x10, 1024, 24, 136, 160, 768, 3, 6, 29, 65, false, false],
+  [0x16, 1280, 48, 32, 80, 768, 3, 7, 12, 68.25, true, false],
+  [0x17, 1280, 64, 128, 192, 768, 3, 7, 20, 79.5, false, true],
+  [0x1b, 1280, 48, 32, 80, 800, 3, 6, 14, 71, true, false],
+  [0x1c, 1280, 72, 128, 200, 800, 3, 6, 22, 83.5, false, true],
+  [0x20, 1280, 96, 112, 312, 960, 1, 3, 36, 108, true, true],
+  [0x23, 1280, 48, 112, 248, 1024, 1, 3, 38, 108, true, true],
+  [0x24, 1280, 16, 144, 248, 1024, 1, 3, 38, 135, true, true],
+  [0x27, 1360, 64, 112, 256, 768, 3, 6, 18, 85.5, true, true],
+  [0x29, 1400, 88, 144, 232, 1050, 3, 4, 32, 121.75, false, true],
+  [0x2e, 1440, 48, 32, 80, 900, 3, 6, 17, 88.75, true, false],
+  [0x2f, 1440, 80, 152, 232, 900, 3, 6, 25, 106.5, false, true],
+  [0x33, 1600, 64, 192, 304, 1200, 1, 3, 46, 162, true, true],
+  [0x39, 1680, 48, 32, 80, 1050, 3, 6, 21, 119, true, false],
+  [0x3a, 1680, 104, 176, 280, 1050, 3, 6, 30, 146.25, false, true],
+  [0x44, 1920, 48, 32, 80, 1200, 3, 6, 26, 154, true, false],
+  [0x45, 1920, 136, 200, 336, 1200, 3, 6, 36, 193.25, false, true],
+  [0x49, 1920, 128, 208, 344, 1440, 1, 3, 56, 234, false, true],
+  [0x4b, 2560, 48, 32, 80, 1600, 3, 6, 37, 268.5, true, false],
+  [0x4c, 2560, 192, 280, 472, 1600, 3, 6, 49, 348.5, false, true],
+  [0x51, 1366, 70, 143, 213, 768, 3, 3, 24, 85.5, true, true],
+  [0x52, 1920, 88, 44, 148, 1080, 4, 5, 36, 148.5, true, true],
+  [0x53, 1600, 24, 80, 96, 900, 1, 3, 96, 108, true, true],
+  [0x55, 1280, 110, 40, 220, 720, 5, 5, 20, 74.25, true, true],
+  [0x56, 1366, 14, 56, 64, 768, 1, 3, 28, 72, true, true],
+  [0x57, 4096, 8, 32, 40, 2160, 48, 8, 6, 556.744, true, false],
+  [0x58, 4096, 8, 32, 40, 2160, 48, 8, 6, 556.188, true, false],
+];
+
+// HDMI 1.4b HDMI_VIC → equivalent CTA VIC.
+export const HDMI_VIC_TO_VIC: Record<number, number> = { 1: 95, 2: 94, 3: 93, 4: 98 };
+
+// CTA rates that also exist in a 1000/1001 video-optimized variant.
+const FRACTIONAL_BASE_RATES = [24, 30, 48, 60, 120, 240];
+
+export interface StandardTiming extends DetailedTiming {
+  // Library key, e.g. "vic:97", "vic:97/1.001" or "dmt:0x52".
+  key: string;
+  standard: "cta" | "dmt";
+  code: number;
+  fractional: boolean;
+}
+
+function toTiming(row: TimingRowData, standard: "cta" | "dmt", fractional: boolean): StandardTiming {
+  const [code, h, hFront, hSync, hBack, v, vFront, vSync, vBack, clock, hPos, vPos, interlaced = false] = row;
+  const pixelClock = fractional ? clock / 1.001 : clock;
+  const hTotal = h + hFront + hSync + hBack;
+  // Interlaced rows give per-field blanking; the frame has two of them plus the half lines.
+  const vTotal = interlaced ? v + 2 * (vFront + vSync + vBack) + 1 : v + vFront + vSync + vBack;
+  const hz = (pixelClock * 1e6) / (hTotal * vTotal);
+  const name = standard === "cta" ? `VIC ${code}` : `DMT 0x${code.toString(16).padStart(2, "0").toUpperCase()}`;
+  return {
+    key: `${standard === "cta" ? "vic" : "dmt"}:${standard === "cta" ? code : `0x${code.toString(16).padStart(2, "0")}`}${fractional ? "/1.001" : ""}`,
+    standard,
+    code,
+    fractional,
+    label: `${name} · ${timingLabel(h, v, hz, interlaced)}`,
+    source: standard === "cta" ? `CTA-861 ${name}` : `VESA ${name}`,
+    h, v, hz,
+    hFront, hSync, hBack,
+    vFront, vSync, vBack,
+    pixelClock,
+    interlaced,
+    hSyncPositive: hPos,
+    vSyncPositive: vPos,
+  };
+}
+
+export const CTA_VIC_TIMINGS: StandardTiming[] = CTA_VIC_ROWS.flatMap((row) => {
+  const base = toTiming(row, "cta", false);
+  return FRACTIONAL_BASE_RATES.includes(Math.round(base.hz)) ? [base, toTiming(row, "cta", true)] : [base];
+});
+
+export const DMT_TIMINGS: StandardTiming[] = DMT_ROWS.map((row) => toTiming(row, "dmt", false));
+
+export const STANDARD_TIMINGS: StandardTiming[] = [...CTA_VIC_TIMINGS, ...DMT_TIMINGS];
+
+export function findStandardTiming(key: string) {
+  return STANDARD_TIMINGS.find((t) => t.key === key);
+}
+
+export function findVic(vic: number, fractional = false) {
+  return CTA_VIC_TIMINGS.find((t) => t.code === vic && t.fractional === fractional);
+}
+
+export function findDmt(id: number) {
+  return DMT_TIMINGS.find((t) => t.code === id);
+}
+
+// The DMT entry an EDID standard timing names. Reduced-blanking entries (+hsync -vsync) have no
+// standard timing code, so only the standard-blanking mode at that size and rate matches.
+export function findDmtMode(h: number, v: number, hz: number) {
+  return DMT_TIMINGS.find((t) => t.h === h && t.v === v && Math.round(t.hz) === hz && !(t.hSyncPositive && !t.vSyncPositive));
+}
+
+// Case-insensitive match on label and source ("vic 97", "2160", "dmt", "59.94").
+export function searchStandardTimings(query: string, timings: StandardTiming[] = STANDARD_TIMINGS) {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return timings;
+  return timings.filter((t) => {
+    const haystack = `${t.label} ${t.source} ${t.key}`.toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
@@ -0,0 +1,249 @@
+// Per-timing math: pixel clock, pixel format and stream bandwidth.
+import { calculateCvtTiming, cvtSyncPolarity, type CvtKind, type CvtProfile } from "./cvt";
+import { DSC_BPCS, evaluateDsc, type DscEvaluation, type DscSampling } from "./dsc";
+
+// Components per pixel after subsampling, the bpc values DP can carry uncompressed for each format
+// (6 bpc is RGB only) and the DSC sampling mode.
+export const COLOR_FORMATS = {
+  rgb: { label: "RGB", factor: 3, bpcs: [6, 8, 10, 12, 16], sampling: "444" },
+  yuv444: { label: "YUV 4:4:4", factor: 3, bpcs: [8, 10, 12, 16], sampling: "444" },
+  yuv422: { label: "YUV 4:2:2", factor: 2, bpcs: [8, 10, 12, 16], sampling: "422" },
+  yuv420: { label: "YUV 4:2:0", factor: 1.5, bpcs: [8, 10, 12, 16], sampling: "420" },
+} as const satisfies Record<string, { label: string; factor: number; bpcs: readonly number[]; sampling: DscSampling }>;
+
+// Every bpc offered by any format.
+export const BPC_OPTIONS = [6, 8, 10, 12, 16] as const;
+
+export type ColorFormatId = keyof typeof COLOR_FORMATS;
+
+export const DEFAULT_BPC = 8;
+export const DEFAULT_COLOR_FORMAT: ColorFormatId = "rgb";
+export const DEFAULT_CVT_KIND: CvtKind = "cvt_rb2";
+// Legacy compression ratio; only used to derive a target bpp when `dscBpp` is not set.
+export const DEFAULT_DSC_RATIO = 3;
+
+// Porches used when a manual timing leaves a field empty.
+export const MANUAL_PORCH_DEFAULTS = { hFront: 8, hSync: 32, hBack: 120, vFront: 3, vSync: 6, vBack: 9 };
+// Sync polarities of a manual or exact timing that does not give its own (the reduced-blanking pair).
+export const MANUAL_SYNC_POLARITY = { hSyncPositive: true, vSyncPositive: false };
+
+export interface TimingParams {
+  // `hz` is the frame rate, as CVT takes it: an interlaced mode sends two fields per frame, so
+  // 1080i with 60 fields per second is hz 30.
+  h?: number; v?: number; hz?: number;
+  cvtKind?: CvtKind;
+  hFront?: number; hSync?: number; hBack?: number;
+  vFront?: number; vSync?: number; vBack?: number;
+  bpc?: number; colorFormat?: ColorFormatId;
+  dscRatio?: number;
+  // DSC target bits per pixel (1/16 steps), slices per line (auto when unset), line buffer depth and
+  // the sink's per-slice throughput (MP/s) and maximum slice width.
+  dscBpp?: number;
+  dscSlices?: number;
+  dscLineBufferDepth?: number;
+  dscSliceThroughput?: number;
+  dscMaxSliceWidth?: number;
+  // Only read for the "exact" generator.
+  pixelClock?: number;
+  // Only read for the manual and exact generators; CVT fixes its own polarities.
+  hSyncPositive?: boolean;
+  vSyncPositive?: boolean;
+  // CVT generator options; the extra blanking only applies to CVT-RB3.
+  interlaced?: boolean;
+  margins?: boolean;
+  videoOptimized?: boolean;
+  extraHBlank?: number;
+  extraVBlankUs?: number;
+}
+
+// A timing with exact porches and pixel clock, as advertised by the display.
+export interface DetailedTiming {
+  label: string;
+  // Where the timing came from, e.g. "EDID DTD 1" or "CTA-861 block 1 DTD 2".
+  source: string;
+  preferred?: boolean;
+  // Frame rate, as on TimingParams; v counts the lines of both fields.
+  h: number; v: number; hz: number;
+  hFront: number; hSync: number; hBack: number;
+  vFront: number; vSync: number; vBack: number;
+  pixelClock: number;
+  interlaced: boolean;
+  hSyncPositive?: boolean;
+  vSyncPositive?: boolean;
+}
+
+export interface ResolvedTiming {
+  h: number; v: number; hz: number;
+  cvtKind: CvtKind;
+  hFront: number; hSync: number; hBack: number;
+  vFront: number; vSync: number; vBack: number;
+  bpc: number; colorFormat: ColorFormatId; bpp: number;
+  dscRatio: number;
+  dscBpp: number;
+  dsc: DscEvaluation;
+  // bpc / color format combinations DP cannot carry uncompressed.
+  formatErrors: string[];
+  pixelClock: number;
+  hSyncPositive: boolean;
+  vSyncPositive: boolean;
+  // Set for CVT generators, e.g. "8.29M9-R3".
+  cvtId?: string;
+  peakGbps: number;
+  peakDscGbps: number;
+}
+
+export function pixelClockMHzFromTotals(
+  h:number, v:number, hz:number,
+  hFront:number, hSync:number, hBack:number,
+  vFront:number, vSync:number, vBack:number
+){
+  const hTotal = h + hFront + hSync + hBack;
+  const vTotal = v + vFront + vSync + vBack;
+  return (hTotal * vTotal * hz) / 1e6;
+}
+
+export function streamGbpsFromClock(clockMHz:number, bpp:number){
+  return (clockMHz * 1e6 * bpp) / 1e9;
+}
+
+export function isColorFormatId(value: unknown): value is ColorFormatId {
+  return typeof value === "string" && value in COLOR_FORMATS;
+}
+
+export function bitsPerPixel(bpc: number, colorFormat: ColorFormatId) {
+  const formatInfo = COLOR_FORMATS[colorFormat] ?? COLOR_FORMATS[DEFAULT_COLOR_FORMAT];
+  return bpc * formatInfo.factor;
+}
+
+// Whether a bpc / color format pair can be sent, uncompressed or (with `dsc`) through the DSC encoder.
+export function isPixelFormatSupported(bpc: number, colorFormat: ColorFormatId, dsc = false) {
+  if (dsc) return (DSC_BPCS as readonly number[]).includes(bpc);
+  const formatInfo = COLOR_FORMATS[colorFormat] ?? COLOR_FORMATS[DEFAULT_COLOR_FORMAT];
+  return (formatInfo.bpcs as readonly number[]).includes(bpc);
+}
+
+export function pixelFormatErrors(bpc: number, colorFormat: ColorFormatId) {
+  if (isPixelFormatSupported(bpc, colorFormat)) return [];
+  const formatInfo = COLOR_FORMATS[colorFormat] ?? COLOR_FORMATS[DEFAULT_COLOR_FORMAT];
+  return [`${formatInfo.label} is not defined at ${bpc} bpc (${formatInfo.bpcs.join(", ")} only).`];
+}
+
+function finiteOr(value: unknown, fallback: number) {
+  const n = Number(value);
+  return value !== undefined && value !== null && value !== "" && Number.isFinite(n) ? n : fallback;
+}
+
+// Fill blanking and pixel clock for a timing (CVT generator, manual or exact porches) and derive its
+// uncompressed and DSC stream rates. H/V/Hz fall back to 1920×1080@60 when missing.
+export function resolveTiming(params: TimingParams): ResolvedTiming {
+  const h = Number(params.h) || 1920;
+  const v = Number(params.v) || 1080;
+  const hz = Number(params.hz) || 60;
+  const cvtKind = params.cvtKind || DEFAULT_CVT_KIND;
+
+  const bpc = Number(params.bpc) || DEFAULT_BPC;
+  const colorFormat = isColorFormatId(params.colorFormat) ? params.colorFormat : DEFAULT_COLOR_FORMAT;
+  const dscRatio = params.dscRatio && params.dscRatio > 0 ? params.dscRatio : DEFAULT_DSC_RATIO;
+
+  let porches: Pick<ResolvedTiming, "hFront" | "hSync" | "hBack" | "vFront" | "vSync" | "vBack">;
+  let pixelClock: number;
+  let cvtId: string | undefined;
+  let polarity: { hSyncPositive: boolean; vSyncPositive: boolean };
+
+  if (cvtKind === "manual" || cvtKind === "exact") {
+    porches = {
+      hFront: finiteOr(params.hFront, MANUAL_PORCH_DEFAULTS.hFront),
+      hSync: finiteOr(params.hSync, MANUAL_PORCH_DEFAULTS.hSync),
+      hBack: finiteOr(params.hBack, MANUAL_PORCH_DEFAULTS.hBack),
+      vFront: finiteOr(params.vFront, MANUAL_PORCH_DEFAULTS.vFront),
+      vSync: finiteOr(params.vSync, MANUAL_PORCH_DEFAULTS.vSync),
+      vBack: finiteOr(params.vBack, MANUAL_PORCH_DEFAULTS.vBack),
+    };
+    const exactClock = Number(params.pixelClock);
+    pixelClock = cvtKind === "exact" && Number.isFinite(exactClock) && exactClock > 0
+      ? exactClock
+      : pixelClockMHzFromTotals(h, v, hz, porches.hFront, porches.hSync, porches.hBack, porches.vFront, porches.vSync, porches.vBack);
+    polarity = {
+      hSyncPositive: typeof params.hSyncPositive === "boolean" ? params.hSyncPositive : MANUAL_SYNC_POLARITY.hSyncPositive,
+      vSyncPositive: typeof params.vSyncPositive === "boolean" ? params.vSyncPositive : MANUAL_SYNC_POLARITY.vSyncPositive,
+    };
+  } else {
+    const result = calculateCvtTiming({
+      hActive: h,
+      vActive: v,
+      refreshHz: hz,
+      reducedBlanking: cvtKind as CvtProfile,
+      interlaced: Boolean(params.interlaced),
+      margins: Boolean(params.margins),
+      videoOptimized: Boolean(params.videoOptimized),
+      extraHBlank: Number(params.extraHBlank) || 0,
+      extraVBlankUs: Number(params.extraVBlankUs) || 0,
+    });
+    porches = {
+      hFront: result.hFront,
+      hSync: result.hSync,
+      hBack: result.hBack,
+      vFront: result.vFront,
+      vSync: result.vSync,
+      vBack: result.vBack,
+    };
+    pixelClock = result.pixelClockMHz;
+    cvtId = result.cvtId;
+    polarity = cvtSyncPolarity(cvtKind as CvtProfile);
+  }
+
+  const bpp = bitsPerPixel(bpc, colorFormat);
+  const peakGbps = streamGbpsFromClock(pixelClock, bpp);
+  const dscBpp = Number(params.dscBpp) > 0 ? Number(params.dscBpp) : Math.round((bpp / dscRatio) * 16) / 16;
+  const dsc = evaluateDsc(h, pixelClock, bpc, bpp, {
+    targetBpp: dscBpp,
+    sampling: COLOR_FORMATS[colorFormat].sampling,
+    sliceCount: Number(params.dscSlices) || undefined,
+    lineBufferDepth: Number(params.dscLineBufferDepth) || undefined,
+    sliceThroughputMps: Number(params.dscSliceThroughput) || undefined,
+    maxSliceWidth: Number(params.dscMaxSliceWidth) || undefined,
+  });
+
+  return {
+    h, v, hz, cvtKind, ...porches,
+    bpc, colorFormat, bpp, dscRatio: dsc.ratio, dscBpp,
+    dsc,
+    formatErrors: pixelFormatErrors(bpc, colorFormat),
+    pixelClock,
+    ...polarity,
+    cvtId,
+    peakGbps,
+    peakDscGbps: dsc.compressedGbps,
+  };
+}
+
+// Pixel clock for a stored timing: the explicit clock wins, otherwise it is derived from totals.
+export function effectivePixelClock(params: TimingParams): number | undefined {
+  if (typeof params.pixelClock === "number" && Number.isFinite(params.pixelClock) && params.pixelClock > 0) {
+    return params.pixelClock;
+  }
+  const h = Number(params.h) || 0;
+  const v = Number(params.v) || 0;
+  const hz = Number(params.hz) || 0;
+  if (h <= 0 || v <= 0 || hz <= 0) return undefined;
+  const clock = pixelClockMHzFromTotals(
+    h, v, hz,
+    Number(params.hFront) || 0, Number(params.hSync) || 0, Number(params.hBack) || 0,
+    Number(params.vFront) || 0, Number(params.vSync) || 0, Number(params.vBack) || 0,
+  );
+  return Number.isFinite(clock) && clock > 0 ? clock : undefined;
+}
+
+function formatHz(hz: number) {
+  return Number.isInteger(Math.round(hz * 1000) / 1000) ? String(Math.round(hz)) : hz.toFixed(3);
+}
+
+export function timingLabel(h: number, v: number, hz: number, interlaced = false) {
+  return `${h}×${v}${interlaced ? "i" : ""} @ ${formatHz(hz)}`;
+}
+
+// Timing parameters that reproduce a detailed timing exactly through the "exact" generator.
+export function exactTimingParams(mode: DetailedTiming): TimingParams {
+  const { h, v, hz, hFront, hSync, hBack, vFront, vSync, vBack, pixelClock, interlaced, hSyncPositive, vSyncPositive } = mode;
+  return { cvtKind: "exact", h, v, hz, hFront, hSync, hBack, vFront, vSync, vBack, pixelClock, interlaced, hSyncPositive, vSyncPositive };
+}
@@ -0,0 +1,111 @@
+// MST topologies: a source feeding branch devices and sinks, each hop with its own link.
+import { evaluateConfiguration, type ConfigurationEvaluation, type TimingConfig } from "./evaluate";
+import type { LinkConfig } from "./link";
+
+export type TopologyNodeKind = "branch" | "sink";
+
+export interface TopologyNode {
+  id: string;
+  label: string;
+  // A branch device (MST hub, daisy-chain monitor) can also drive its own display via timings.
+  kind: TopologyNodeKind;
+  // Upstream node; root nodes hang off the source.
+  parentId?: string;
+  // Link into this node. Root nodes fall back to the source link.
+  link?: LinkConfig;
+  presetId?: string;
+}
+
+export interface Topology {
+  nodes: TopologyNode[];
+}
+
+export interface HopEvaluation {
+  nodeId: string;
+  label: string;
+  depth: number;
+  // Indices into the configuration's timing list carried over this hop.
+  timingIndices: number[];
+  evaluation: ConfigurationEvaluation;
+}
+
+export interface TopologyEvaluation {
+  hops: HopEvaluation[];
+  // Hop with the least margin (or the worst overrun).
+  bottleneckId?: string;
+  // Timings attached to a node that no longer exists. These and unattached timings are carried by the first root hop.
+  orphanTimings: number[];
+  fits: boolean;
+}
+
+function descendants(nodes: TopologyNode[], id: string): Set<string> {
+  const ids = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const node of nodes) {
+      if (node.parentId && ids.has(node.parentId) && !ids.has(node.id)) {
+        ids.add(node.id);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+}
+
+function depthOf(nodes: TopologyNode[], node: TopologyNode) {
+  let depth = 0;
+  for (let cur = node; cur.parentId; depth += 1) {
+    const parent = nodes.find((n) => n.id === cur.parentId);
+    if (!parent || depth > nodes.length) break;
+    cur = parent;
+  }
+  return depth;
+}
+
+// Depth-first order so each hop is listed right after its upstream hop.
+function orderedNodes(nodes: TopologyNode[]) {
+  const out: TopologyNode[] = [];
+  const visit = (parentId: string | undefined) => {
+    for (const node of nodes) {
+      if (node.parentId === parentId && !out.includes(node)) {
+        out.push(node);
+        visit(node.id);
+      }
+    }
+  };
+  visit(undefined);
+  return out;
+}
+
+// Every hop carries the streams of all sinks below it and is checked on its own link.
+export function evaluateTopology(topology: Topology, timings: TimingConfig[], sourceLink: LinkConfig): TopologyEvaluation {
+  const nodes = orderedNodes(topology.nodes);
+  const known = new Set(nodes.map((n) => n.id));
+  const rootId = nodes[0]?.id;
+  const orphanTimings = timings.flatMap((t, i) => (t.sinkId && !known.has(t.sinkId) ? [i] : []));
+  const homeOf = (t: TimingConfig) => (t.sinkId && known.has(t.sinkId) ? t.sinkId : rootId);
+
+  const hops = nodes.map((node): HopEvaluation => {
+    const below = descendants(nodes, node.id);
+    const timingIndices = timings.flatMap((t, i) => (below.has(homeOf(t)) ? [i] : []));
+    const transport = node.link ?? sourceLink;
+    const evaluation = evaluateConfiguration({
+      transport,
+      timings: timingIndices.map((i) => timings[i]),
+      mst: node.kind === "branch",
+    });
+    return { nodeId: node.id, label: node.label, depth: depthOf(nodes, node), timingIndices, evaluation };
+  });
+
+  const bottleneck = hops.reduce<HopEvaluation | undefined>(
+    (worst, hop) => (hop.timingIndices.length && (!worst || hop.evaluation.marginPct < worst.evaluation.marginPct) ? hop : worst),
+    undefined,
+  );
+  return {
+    hops,
+    bottleneckId: bottleneck?.nodeId,
+    orphanTimings,
+    fits: hops.every((hop) => hop.evaluation.fits),
+  };
+}
@@ -0,0 +1,121 @@
+// USB4 / Thunderbolt DisplayPort tunneling: fabric bandwidth shared by DP IN adapters and other tunnels.
+import { codingEfficiency, transportFamily, type LinkConfig } from "./link";
+
+export type Usb4SpeedId = "gen2x2" | "gen3x2" | "gen4" | "gen4_asym";
+
+export interface Usb4Speed {
+  id: Usb4SpeedId;
+  label: string;
+  // Downstream raw bandwidth over all lanes (Gbps).
+  rawGbps: number;
+  efficiency: number;
+}
+
+// Gen 2 uses 64b/66b and Gen 3 128b/132b; Gen 4 PAM3 is counted at the same 128/132 net rate.
+export const USB4_SPEEDS: Usb4Speed[] = [
+  { id: "gen3x2", label: "USB4 40 Gbps (Gen 3 ×2)", rawGbps: 40, efficiency: 128 / 132 },
+  { id: "gen2x2", label: "USB4 20 Gbps (Gen 2 ×2)", rawGbps: 20, efficiency: 64 / 66 },
+  { id: "gen4", label: "USB4 v2 80 Gbps (Gen 4 symmetric)", rawGbps: 80, efficiency: 128 / 132 },
+  { id: "gen4_asym", label: "USB4 v2 120 Gbps (Gen 4 asymmetric)", rawGbps: 120, efficiency: 128 / 132 },
+];
+
+// Tunneled packets carry up to 256 payload bytes behind a 4-byte header.
+export const USB4_TUNNEL_EFFICIENCY = 256 / 260;
+// Bandwidth allocation mode requests are made in 0.25 Gbps units.
+export const USB4_BW_GRANULARITY_GBPS = 0.25;
+
+export interface Usb4DpAdapter {
+  id: string;
+  label: string;
+  // DP link feeding this adapter; the adapter without one carries the configuration's own timings.
+  link?: LinkConfig;
+  presetId?: string;
+  // Stream bandwidth this adapter needs (Gbps); used in bandwidth allocation mode.
+  demandGbps?: number;
+}
+
+export interface Usb4Config {
+  speedId: Usb4SpeedId;
+  // Held back for PCIe and USB3 tunnels (Gbps).
+  pcieReserveGbps: number;
+  usb3ReserveGbps: number;
+  // DP IN adapters request what their streams need instead of their whole DP link.
+  bandwidthAllocationMode: boolean;
+  // In allocation order: earlier adapters are granted first.
+  adapters: Usb4DpAdapter[];
+}
+
+export interface Usb4TunnelGrant {
+  id: string;
+  label: string;
+  primary: boolean;
+  requestGbps: number;
+  grantedGbps: number;
+  // DP payload that fits through the granted tunnel bandwidth.
+  usableGbps: number;
+}
+
+export interface Usb4Allocation {
+  speed: Usb4Speed;
+  fabricGbps: number;
+  reservedGbps: number;
+  availableGbps: number;
+  tunnels: Usb4TunnelGrant[];
+  primary: Usb4TunnelGrant;
+  // Some adapter got less than it asked for.
+  overSubscribed: boolean;
+}
+
+export function usb4Speed(id: Usb4SpeedId | undefined) {
+  return USB4_SPEEDS.find((speed) => speed.id === id) ?? USB4_SPEEDS[0];
+}
+
+// Tunnel bandwidth a DP link reserves when the adapter is not in allocation mode: the link rate
+// after channel coding, since the adapter strips the coding before packetizing.
+export function dpTunnelMaxGbps(link: LinkConfig) {
+  return (link.rate * link.lanes * codingEfficiency(link.coding)) / USB4_TUNNEL_EFFICIENCY;
+}
+
+function roundUpToGranularity(gbps: number) {
+  return Math.ceil(gbps / USB4_BW_GRANULARITY_GBPS - 1e-9) * USB4_BW_GRANULARITY_GBPS;
+}
+
+// Grant adapters in order, first come first served, from what the other tunnels leave over.
+export function allocateUsb4Bandwidth(usb4: Usb4Config, primaryLink: LinkConfig, primaryDemandGbps: number): Usb4Allocation {
+  const speed = usb4Speed(usb4.speedId);
+  const fabricGbps = speed.rawGbps * speed.efficiency;
+  const reservedGbps = Math.max(0, usb4.pcieReserveGbps || 0) + Math.max(0, usb4.usb3ReserveGbps || 0);
+  const availableGbps = Math.max(0, fabricGbps - reservedGbps);
+  const adapters = usb4.adapters.some((a) => !a.link)
+    ? usb4.adapters
+    : [...usb4.adapters, { id: "primary", label: "DP IN (this link)" }];
+
+  let remaining = availableGbps;
+  const tunnels = adapters.map((adapter): Usb4TunnelGrant => {
+    const primary = !adapter.link;
+    const link = adapter.link ?? primaryLink;
+    const maxGbps = dpTunnelMaxGbps(link);
+    const demand = primary ? primaryDemandGbps : adapter.demandGbps;
+    const requestGbps = usb4.bandwidthAllocationMode && demand !== undefined
+      ? Math.min(maxGbps, roundUpToGranularity(demand / USB4_TUNNEL_EFFICIENCY))
+      : maxGbps;
+    const grantedGbps = Math.min(requestGbps, remaining);
+    remaining -= grantedGbps;
+    return { id: adapter.id, label: adapter.label, primary, requestGbps, grantedGbps, usableGbps: grantedGbps * USB4_TUNNEL_EFFICIENCY };
+  });
+
+  return {
+    speed,
+    fabricGbps,
+    reservedGbps,
+    availableGbps,
+    tunnels,
+    primary: tunnels.find((t) => t.primary),
+    overSubscribed: tunnels.some((t) => t.grantedGbps < t.requestGbps - 1e-9),
+  };
+}
+
+export function usb4Errors(usb4: Usb4Config, primaryLink: LinkConfig) {
+  const links = [primaryLink, ...usb4.adapters.map((a) => a.link).filter(Boolean)];
+  return links.some((link) => transportFamily(link.coding) === "hdmi") ? ["Only DisplayPort can be tunneled over USB4; HDMI links are not carried."] : [];
+}
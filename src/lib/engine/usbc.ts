@@ -0,0 +1,68 @@
+// USB-C DP Alt Mode: pin assignment and cable decide the DP lanes and the fastest link rate.
+import { evaluateConfiguration, type BandwidthConfig, type ConfigurationEvaluation } from "./evaluate";
+import { dpCodingForRate, type LinkConfig } from "./link";
+
+export type PinAssignment = "C" | "D" | "E";
+
+export const PIN_ASSIGNMENTS: Array<{ id: PinAssignment; label: string; lanes: number; usbData: boolean }> = [
+  { id: "C", label: "C – 4 DP lanes (USB-C to USB-C)", lanes: 4, usbData: false },
+  { id: "D", label: "D – 2 DP lanes + USB 3.x", lanes: 2, usbData: true },
+  { id: "E", label: "E – 4 DP lanes (USB-C to DP cable / adaptor)", lanes: 4, usbData: false },
+];
+
+export type UsbCCableId = "full_featured" | "dp40" | "dp54" | "dp80";
+
+// Highest DP rate each cable class is certified for; UHBR needs DP Alt Mode 2.x and a DPxx cable.
+export const USBC_CABLES: Array<{ id: UsbCCableId; label: string; maxRate: number }> = [
+  { id: "full_featured", label: "Full-featured USB-C (HBR3)", maxRate: 8.1 },
+  { id: "dp40", label: "DP40 certified (UHBR10)", maxRate: 10 },
+  { id: "dp54", label: "DP54 certified (UHBR13.5)", maxRate: 13.5 },
+  { id: "dp80", label: "DP80 certified (UHBR20)", maxRate: 20 },
+];
+
+export interface UsbCAltMode {
+  pinAssignment: PinAssignment;
+  // SuperSpeed USB data has to keep running next to DP, which only pin assignment D allows.
+  keepUsbData: boolean;
+  cable: UsbCCableId;
+}
+
+export interface AltModeLaneOption {
+  pinAssignment: PinAssignment;
+  link: LinkConfig;
+  evaluation: ConfigurationEvaluation;
+  // Whether each timing fits this link on its own.
+  timingFits: boolean[];
+}
+
+export function pinAssignment(id: PinAssignment) {
+  return PIN_ASSIGNMENTS.find((p) => p.id === id) ?? PIN_ASSIGNMENTS[0];
+}
+
+export function usbCCable(id: UsbCCableId) {
+  return USBC_CABLES.find((c) => c.id === id) ?? USBC_CABLES[0];
+}
+
+// Keeping USB data forces pin assignment D.
+export function effectivePinAssignment(altMode: UsbCAltMode): PinAssignment {
+  return altMode.keepUsbData ? "D" : altMode.pinAssignment;
+}
+
+export function altModeLink(altMode: UsbCAltMode, ssc = true): LinkConfig {
+  const rate = usbCCable(altMode.cable).maxRate;
+  return { rate, lanes: pinAssignment(effectivePinAssignment(altMode)).lanes, coding: dpCodingForRate(rate), ssc };
+}
+
+// The same cable with four lanes (pin assignment C, no USB data) against two lanes next to USB 3.x (D).
+export function compareAltModeLanes(config: BandwidthConfig, altMode: UsbCAltMode): AltModeLaneOption[] {
+  return (["C", "D"] as const).map((id) => {
+    const link = altModeLink({ ...altMode, pinAssignment: id, keepUsbData: id === "D" }, config.transport.ssc);
+    const options = { ...config, transport: link };
+    return {
+      pinAssignment: id,
+      link,
+      evaluation: evaluateConfiguration(options),
+      timingFits: config.timings.map((timing) => evaluateConfiguration({ ...options, timings: [timing] }).fits),
+    };
+  });
+}